@@ -0,0 +1,295 @@
+import { TDMaterial } from './tde'
+import { Tensor, Vector } from './types'
+
+/**
+ * A rectangular fault as defined by [Okada, 1985](https://pubs.geoscienceworld.org/ssa/bssa/article-abstract/75/4/1135/118782)
+ * (see {@link okadaSurfaceDisplacement})
+ * @category Reference
+ */
+export interface OkadaFault {
+    /**
+     * @brief The centroid of the fault (z < 0)
+     */
+    center: Vector
+
+    /**
+     * @brief In degrees, according to the North and clock-wise. The fault dips to the right
+     * when looking along the strike.
+     */
+    strike: number
+
+    /**
+     * @brief In degrees, from the horizontal (in ]0, 90])
+     */
+    dip: number
+
+    /**
+     * @brief The size along the strike
+     */
+    length: number
+
+    /**
+     * @brief The size along the dip
+     */
+    width: number
+}
+
+/**
+ * The slip on an {@link OkadaFault}, with the sign conventions of Okada: positive `strike` is
+ * left-lateral, positive `dip` is a reverse (thrust) slip and positive `tensile` is an opening
+ * @category Reference
+ */
+export interface OkadaSlip {
+    strike: number
+    dip: number
+    tensile: number
+}
+
+/**
+ * @brief The opening (normal displacement discontinuity) of a penny-shaped crack of radius `a`
+ * under a uniform internal pressure in full-space ([Sneddon, 1946](https://royalsocietypublishing.org/doi/10.1098/rspa.1946.0077)):
+ * `Δu(r) = 8(1-ν²)p/(πE).sqrt(a²-r²)`
+ * @param r The distance from the center of the crack
+ * @param a The radius of the crack
+ * @param pressure The internal pressure (positive opens the crack)
+ * @category Reference
+ */
+export function pennyCrackOpening(r: number, a: number, pressure: number, material: TDMaterial): number {
+    if (r >= a) {
+        return 0
+    }
+    const nu = material.poisson
+    return 8 * (1 - nu * nu) * pressure / (Math.PI * material.young) * Math.sqrt(a * a - r * r)
+}
+
+/**
+ * @brief The shear displacement discontinuity of an elliptical crack under a uniform shear
+ * traction in full-space ([Kassir and Sih, 1966](https://asmedigitalcollection.asme.org/appliedmechanics/article-abstract/33/3/601/387708)).
+ * The crack is centered at the origin with its semi-axes `a` along x and `b` along y (`a >= b`).
+ * @param x The coordinate along the semi-axis `a`
+ * @param y The coordinate along the semi-axis `b`
+ * @param shear The shear traction along `a` and along `b`
+ * @returns The displacement discontinuity along `a` and along `b`
+ * @category Reference
+ */
+export function ellipticalCrackShear(x: number, y: number, a: number, b: number, shear: [number, number], material: TDMaterial): [number, number] {
+    const s = 1 - (x * x) / (a * a) - (y * y) / (b * b)
+    if (s <= 0) {
+        return [0, 0]
+    }
+    const nu = material.poisson
+    const mu = material.young / (2 * (1 + nu))
+    const k2 = 1 - (b * b) / (a * a)
+    const kp2 = 1 - k2
+    const [K, E] = ellipticIntegrals(k2)
+    const f = 2 * (1 - nu) * b * Math.sqrt(s) / mu
+    if (k2 === 0) {
+        // circular crack
+        const c = 4 / (Math.PI * (2 - nu))
+        return [f * shear[0] * c, f * shear[1] * c]
+    }
+    return [
+        f * shear[0] * k2 / ((k2 - nu) * E + nu * kp2 * K),
+        f * shear[1] * k2 / ((k2 + nu * kp2) * E - nu * kp2 * K)
+    ]
+}
+
+/**
+ * @brief The displacement at the free surface (z=0) due to a uniform slip on a rectangular
+ * fault in half-space ([Okada, 1985](https://pubs.geoscienceworld.org/ssa/bssa/article-abstract/75/4/1135/118782))
+ * @param x The east coordinate of the observation point
+ * @param y The north coordinate of the observation point
+ * @returns The displacement `[east, north, up]`
+ * @example
+ * ```js
+ * const { okadaSurfaceDisplacement } = require('@youwol/arch-doc')
+ *
+ * const fault = { center: [0, 0, -5], strike: 30, dip: 60, length: 10, width: 4 }
+ * const u = okadaSurfaceDisplacement(2, 3, fault, { strike: 1, dip: 0, tensile: 0 }, 0.25)
+ * ```
+ * @category Reference
+ */
+export function okadaSurfaceDisplacement(x: number, y: number, fault: OkadaFault, slip: OkadaSlip, poisson: number): Vector {
+    const strike = fault.strike * Math.PI / 180
+    const dip = fault.dip * Math.PI / 180
+    const L = fault.length
+    const W = fault.width
+    const cs = Math.cos(strike), ss = Math.sin(strike)
+    const cd = Math.cos(dip), sd = Math.sin(dip)
+
+    // Okada's coordinate system, x along the strike and y up-dip: (e, n) are relative to the
+    // surface projection of the center of the top edge (the center moved up-dip by W.cos(dip)/2),
+    // then X is shifted by L/2 along the strike and Y by W.cos(dip) to put the origin at the projection
+    // of the bottom-left corner, d being the depth of the bottom edge
+    const e = x - fault.center[0] + cs * cd * W / 2
+    const n = y - fault.center[1] - ss * cd * W / 2
+    const X = cs * n + ss * e + L / 2
+    const Y = ss * n - cs * e + cd * W
+    const d = -fault.center[2] + sd * W / 2
+
+    const p = Y * cd + d * sd
+    const q = Y * sd - d * cd
+    const ctx: OkadaContext = { q, sd, cd, n1: 1 - 2 * poisson }
+
+    const chinnery = (f: (xi: number, eta: number, c: OkadaContext) => number) =>
+        f(X, p, ctx) - f(X, p - W, ctx) - f(X - L, p, ctx) + f(X - L, p - W, ctx)
+
+    const U1 = slip.strike, U2 = slip.dip, U3 = slip.tensile
+    const ux = (-U1 * chinnery(uxSS) - U2 * chinnery(uxDS) + U3 * chinnery(uxTF)) / (2 * Math.PI)
+    const uy = (-U1 * chinnery(uySS) - U2 * chinnery(uyDS) + U3 * chinnery(uyTF)) / (2 * Math.PI)
+    const uz = (-U1 * chinnery(uzSS) - U2 * chinnery(uzDS) + U3 * chinnery(uzTF)) / (2 * Math.PI)
+
+    return [ss * ux - cs * uy, cs * ux + ss * uy, uz]
+}
+
+/**
+ * @brief The displacement and stress around a spherical cavity of radius `a` under a uniform
+ * internal pressure in full-space (Lamé solution): `u_r = p.a³/(4μ.r²)`, `σ_rr = -p.a³/r³` and
+ * `σ_θθ = σ_φφ = p.a³/(2r³)`
+ * @param position The observation point (outside the cavity)
+ * @param center The center of the cavity
+ * @param a The radius of the cavity
+ * @param pressure The internal pressure (positive inflates the cavity)
+ * @category Reference
+ */
+export function pressurizedCavity(position: Vector, center: Vector, a: number, pressure: number, material: TDMaterial): { displ: Vector, stress: Tensor } {
+    const v: Vector = [position[0] - center[0], position[1] - center[1], position[2] - center[2]]
+    const r = Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2])
+    const mu = material.young / (2 * (1 + material.poisson))
+    const ur = pressure * a * a * a / (4 * mu * r * r)
+    const n = v.map(c => c / r)
+
+    // σ = σθθ.I + (σrr - σθθ).n⊗n
+    const srr = -pressure * a * a * a / (r * r * r)
+    const stt = pressure * a * a * a / (2 * r * r * r)
+    const ds = srr - stt
+    return {
+        displ: [ur * n[0], ur * n[1], ur * n[2]],
+        stress: [
+            stt + ds * n[0] * n[0], ds * n[0] * n[1], ds * n[0] * n[2],
+            stt + ds * n[1] * n[1], ds * n[1] * n[2],
+            stt + ds * n[2] * n[2]
+        ]
+    }
+}
+
+// ----------------------------------------------------------------------
+
+/**
+ * The complete elliptic integrals of the first and second kind, K(k) and E(k), using the
+ * arithmetic-geometric mean
+ */
+function ellipticIntegrals(k2: number): [number, number] {
+    let a = 1, g = Math.sqrt(1 - k2), sum = k2 / 2, pow = 0.5
+    while (Math.abs(a - g) > 1e-15 * a) {
+        const an = (a + g) / 2
+        const c = (a - g) / 2
+        g = Math.sqrt(a * g)
+        a = an
+        pow *= 2
+        sum += pow * c * c
+    }
+    const K = Math.PI / (2 * a)
+    return [K, K * (1 - sum)]
+}
+
+interface OkadaContext {
+    q: number
+    sd: number
+    cd: number
+    n1: number // μ/(λ+μ) = 1-2ν
+}
+
+const EPS = 1e-14
+
+function okadaAtan(xi: number, eta: number, q: number, R: number): number {
+    return q !== 0 ? Math.atan(xi * eta / (q * R)) : 0
+}
+
+function uxSS(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    return xi * c.q / (R * (R + eta)) + okadaAtan(xi, eta, c.q, R) + I1(xi, eta, c, R) * c.sd
+}
+
+function uySS(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    return (eta * c.cd + c.q * c.sd) * c.q / (R * (R + eta)) + c.q * c.cd / (R + eta) + I2(eta, c, R) * c.sd
+}
+
+function uzSS(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    const db = eta * c.sd - c.q * c.cd
+    return db * c.q / (R * (R + eta)) + c.q * c.sd / (R + eta) + I4(db, eta, c, R) * c.sd
+}
+
+function uxDS(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    return c.q / R - I3(eta, c, R) * c.sd * c.cd
+}
+
+function uyDS(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    return (eta * c.cd + c.q * c.sd) * c.q / (R * (R + xi)) + c.cd * okadaAtan(xi, eta, c.q, R) - I1(xi, eta, c, R) * c.sd * c.cd
+}
+
+function uzDS(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    const db = eta * c.sd - c.q * c.cd
+    return db * c.q / (R * (R + xi)) + c.sd * okadaAtan(xi, eta, c.q, R) - I5(xi, eta, c, R, db) * c.sd * c.cd
+}
+
+function uxTF(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    return c.q * c.q / (R * (R + eta)) - I3(eta, c, R) * c.sd * c.sd
+}
+
+function uyTF(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    const db = eta * c.sd - c.q * c.cd
+    return -db * c.q / (R * (R + xi)) - c.sd * (xi * c.q / (R * (R + eta)) - okadaAtan(xi, eta, c.q, R)) - I1(xi, eta, c, R) * c.sd * c.sd
+}
+
+function uzTF(xi: number, eta: number, c: OkadaContext): number {
+    const R = Math.sqrt(xi * xi + eta * eta + c.q * c.q)
+    const yb = eta * c.cd + c.q * c.sd
+    return yb * c.q / (R * (R + xi)) + c.cd * (xi * c.q / (R * (R + eta)) - okadaAtan(xi, eta, c.q, R)) - I5(xi, eta, c, R, eta * c.sd - c.q * c.cd) * c.sd * c.sd
+}
+
+function I1(xi: number, eta: number, c: OkadaContext, R: number): number {
+    const db = eta * c.sd - c.q * c.cd
+    if (c.cd > EPS) {
+        return c.n1 * (-xi / (c.cd * (R + db))) - c.sd / c.cd * I5(xi, eta, c, R, db)
+    }
+    return -c.n1 / 2 * xi * c.q / ((R + db) * (R + db))
+}
+
+function I2(eta: number, c: OkadaContext, R: number): number {
+    return c.n1 * (-Math.log(R + eta)) - I3(eta, c, R)
+}
+
+function I3(eta: number, c: OkadaContext, R: number): number {
+    const yb = eta * c.cd + c.q * c.sd
+    const db = eta * c.sd - c.q * c.cd
+    if (c.cd > EPS) {
+        return c.n1 * (yb / (c.cd * (R + db)) - Math.log(R + eta)) + c.sd / c.cd * I4(db, eta, c, R)
+    }
+    return c.n1 / 2 * (eta / (R + db) + yb * c.q / ((R + db) * (R + db)) - Math.log(R + eta))
+}
+
+function I4(db: number, eta: number, c: OkadaContext, R: number): number {
+    if (c.cd > EPS) {
+        return c.n1 / c.cd * (Math.log(R + db) - c.sd * Math.log(R + eta))
+    }
+    return -c.n1 * c.q / (R + db)
+}
+
+function I5(xi: number, eta: number, c: OkadaContext, R: number, db: number): number {
+    if (c.cd > EPS) {
+        if (xi === 0) {
+            return 0
+        }
+        const X = Math.sqrt(xi * xi + c.q * c.q)
+        return c.n1 * 2 / c.cd * Math.atan((eta * (X + c.q * c.cd) + X * (R + X) * c.sd) / (xi * (R + X) * c.cd))
+    }
+    return -c.n1 * xi * c.sd / (R + db)
+}
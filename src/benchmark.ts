@@ -0,0 +1,755 @@
+import { ArchModule } from './loader'
+import { Model } from './model'
+import { Surface } from './surface'
+import { ellipticalCrackShear, okadaSurfaceDisplacement, OkadaFault, pennyCrackOpening, pressurizedCavity } from './analytic'
+import { TDMaterial } from './tde'
+import { FlatVectors, Vector } from './types'
+import { SolutionField } from './solution'
+
+/**
+ * The benchmarks run by {@link runBenchmarks}:
+ * - `api`: the loaded module provides all the classes and methods declared in this package
+ * - `sneddon`: opening of a penny-shaped crack under internal pressure (see {@link pennyCrackOpening})
+ * - `ellipticalShear`: slip of an elliptical crack under uniform shear (see {@link ellipticalCrackShear})
+ * - `okada`: surface displacement of a rectangular dislocation in half-space (see {@link okadaSurfaceDisplacement})
+ * - `cavity`: displacement around a pressurized spherical cavity (see {@link pressurizedCavity})
+ * - `conventions`: imposed Burger's vectors are returned unchanged with the Okada convention and
+ * reordered as expected with the Poly3D convention of {@link BurgerFilter}
+ * @category Reference
+ */
+export type BenchmarkName = 'api' | 'sneddon' | 'ellipticalShear' | 'okada' | 'cavity' | 'conventions'
+
+/**
+ * The result of one benchmark for one solver
+ * @category Reference
+ */
+export interface BenchmarkResult {
+    benchmark: BenchmarkName
+
+    /**
+     * @brief The solver used (see {@link Forward.select}), undefined for `api`
+     */
+    solver?: string
+
+    passed: boolean
+
+    /**
+     * @brief The relative L2 error against the analytical solution (the number of missing
+     * classes and methods for `api`, listed in {@link message}). `NaN` if the benchmark failed to run.
+     */
+    error: number
+
+    tolerance: number
+
+    /**
+     * @brief The elapsed time in milliseconds
+     */
+    time: number
+
+    /**
+     * @brief Why the benchmark failed, if any
+     */
+    message?: string
+}
+
+/**
+ * The machine-readable report returned by {@link runBenchmarks}
+ * @category Reference
+ */
+export interface BenchmarkReport {
+    /**
+     * @brief The version of the tested library (see {@link ArchCapabilities.version})
+     */
+    version: string
+
+    backend: string
+
+    /**
+     * @brief ISO date of the run
+     */
+    date: string
+
+    /**
+     * @brief True if all the benchmarks passed
+     */
+    passed: boolean
+
+    results: Array<BenchmarkResult>
+}
+
+/**
+ * Options for {@link runBenchmarks}
+ * @category Reference
+ */
+export interface BenchmarkOptions {
+    /**
+     * @brief The benchmarks to run
+     * @default all
+     */
+    benchmarks?: Array<BenchmarkName>
+
+    /**
+     * @brief The solvers to test
+     * @default The solvers of the backend (see {@link ArchCapabilities.solvers})
+     */
+    solvers?: Array<string>
+
+    /**
+     * @brief The resolution of the meshes (number of rings of the discs, subdivisions of the
+     * rectangle along the dip). The number of triangles grows as its square.
+     * @default 12
+     */
+    resolution?: number
+
+    /**
+     * @brief The tolerances on the relative L2 errors
+     * @default { api: 0, sneddon: 0.1, ellipticalShear: 0.1, okada: 1e-3, cavity: 0.1, conventions: 1e-6 }
+     */
+    tolerances?: Partial<Record<BenchmarkName, number>>
+
+    /**
+     * @brief The tolerance of the solvers
+     * @default 1e-9
+     */
+    eps?: number
+
+    /**
+     * @brief The maximum number of iterations of the solvers
+     * @default 1000
+     */
+    maxIter?: number
+
+    /**
+     * @brief Called after each benchmark, e.g., to display the progress
+     */
+    onResult?: (result: BenchmarkResult) => void
+}
+
+/**
+ * @brief Run the analytical benchmarks and the conformance checks on a loaded library, for each
+ * solver. Each benchmark builds a {@link Model}, runs {@link Forward} and compares the results
+ * with the analytical solution (see {@link BenchmarkName}).
+ *
+ * This is the way to check that a new version of the library (see {@link ArchModule.license}) still
+ * matches the contracts of this package and gives correct results.
+ * @example
+ * ```js
+ * // benchmark.js
+ * const fs = require('fs')
+ * const { loadArch, runBenchmarks } = require('@youwol/arch-doc')
+ *
+ * loadArch().then( arch => {
+ *     const report = runBenchmarks(arch, {
+ *         onResult: r => console.log(`${r.passed ? 'ok  ' : 'FAIL'} ${r.benchmark} (${r.solver}): ${r.error.toExponential(2)}`)
+ *     })
+ *     fs.writeFileSync('benchmark-report.json', JSON.stringify(report, null, 2), 'utf8')
+ *     process.exit(report.passed ? 0 : 1)
+ * })
+ * ```
+ * @category Reference
+ */
+export function runBenchmarks(arch: ArchModule, options: BenchmarkOptions = {}): BenchmarkReport {
+    const capabilities = arch.capabilities()
+    const benchmarks = options.benchmarks || ['api', 'sneddon', 'ellipticalShear', 'okada', 'cavity', 'conventions']
+    const solvers = options.solvers || capabilities.solvers
+    const tolerances = { ...defaultTolerances, ...options.tolerances }
+    const ctx: BenchmarkContext = {
+        arch,
+        resolution: options.resolution || 12,
+        eps: options.eps || 1e-9,
+        maxIter: options.maxIter || 1000,
+        solver: undefined
+    }
+
+    const results: Array<BenchmarkResult> = []
+    const add = (result: BenchmarkResult) => {
+        results.push(result)
+        if (options.onResult) {
+            options.onResult(result)
+        }
+    }
+
+    benchmarks.forEach(name => {
+        const tolerance = tolerances[name]
+        const run = (solver?: string) => {
+            const start = Date.now()
+            try {
+                const outcome = benchmarkFunctions[name]({ ...ctx, solver })
+                const { error, message } = typeof outcome === 'number' ? { error: outcome, message: undefined } : outcome
+                add({ benchmark: name, solver, passed: error <= tolerance, error, tolerance, time: Date.now() - start, message })
+            } catch (e) {
+                add({ benchmark: name, solver, passed: false, error: NaN, tolerance, time: Date.now() - start, message: e instanceof Error ? e.message : String(e) })
+            }
+        }
+        if (name === 'api') {
+            run()
+        } else {
+            solvers.forEach(solver => run(solver))
+        }
+    })
+
+    return {
+        version: capabilities.version,
+        backend: capabilities.backend,
+        date: new Date().toISOString(),
+        passed: results.every(r => r.passed),
+        results
+    }
+}
+
+/**
+ * The ways of passing the observation points and getting the results compared by
+ * {@link runDataPathBenchmark}:
+ * - `array`: plain arrays in and out, e.g., `solution.stress(position)`
+ * - `typed`: a `Float64Array` in and a reused output buffer, e.g., `solution.stress(position, { out })`
+ * - `view`: a `Float64Array` in and a view into the memory of the library, e.g., `solution.stress(position, { view: true })`
+ * - `chunked`: streaming evaluation with {@link Solution.forEachChunk}, the chunks being copied into one buffer
+ * @category Reference
+ */
+export type DataPath = 'array' | 'typed' | 'view' | 'chunked'
+
+/**
+ * The timing of one {@link DataPath} for one field
+ * @category Reference
+ */
+export interface DataPathTiming {
+    path: DataPath
+
+    field: SolutionField
+
+    /**
+     * @brief The best elapsed time in milliseconds over the repetitions
+     */
+    time: number
+
+    /**
+     * @brief The speed-up compared to the `array` path (`> 1` means faster)
+     */
+    speedup: number
+
+    /**
+     * @brief The maximum absolute difference with the results of the `array` path,
+     * which should be zero. `Infinity` if some values were not written (e.g., a skipped chunk)
+     */
+    difference: number
+}
+
+/**
+ * Options for {@link runDataPathBenchmark}
+ * @category Reference
+ */
+export interface DataPathOptions {
+    /**
+     * @brief The number of observation points
+     * @default 100000
+     */
+    nbPoints?: number
+
+    /**
+     * @brief The fields to compute
+     * @default ['displ', 'stress']
+     */
+    fields?: Array<SolutionField>
+
+    /**
+     * @brief The number of repetitions of each measure, the best time being kept
+     * @default 3
+     */
+    repeat?: number
+
+    /**
+     * @brief The chunk size of the `chunked` path (see {@link FieldOptions.chunkSize})
+     * @default 65536
+     */
+    chunkSize?: number
+
+    /**
+     * @brief The number of rings of the meshed penny-shaped crack (see {@link BenchmarkOptions.resolution})
+     * @default 12
+     */
+    resolution?: number
+
+    /**
+     * @brief Called after each measure, e.g., to display the progress
+     */
+    onResult?: (timing: DataPathTiming) => void
+}
+
+/**
+ * The machine-readable report returned by {@link runDataPathBenchmark}
+ * @category Reference
+ */
+export interface DataPathReport {
+    version: string
+
+    backend: string
+
+    /**
+     * @brief ISO date of the run
+     */
+    date: string
+
+    nbPoints: number
+
+    nbTriangles: number
+
+    results: Array<DataPathTiming>
+}
+
+/**
+ * @brief Measure the speed-up of the typed array data path (see {@link Example_typed_arrays}) compared
+ * to plain arrays, by computing the fields of a pressurized penny-shaped crack on a large grid of
+ * observation points. The results of all the paths are also compared, so that a backend returning
+ * wrong values through a view or a chunk is detected.
+ * @example
+ * ```js
+ * const { runDataPathBenchmark } = require('@youwol/arch-doc')
+ *
+ * loadArch().then( arch => {
+ *     const report = runDataPathBenchmark(arch, {
+ *         nbPoints: 1e6,
+ *         onResult: r => console.log(`${r.field} ${r.path.padEnd(8)} ${r.time} ms (x${r.speedup.toFixed(1)})`)
+ *     })
+ *     fs.writeFileSync('data-path.json', JSON.stringify(report, null, 2), 'utf8')
+ * })
+ * ```
+ * @category Reference
+ */
+export function runDataPathBenchmark(arch: ArchModule, options: DataPathOptions = {}): DataPathReport {
+    const capabilities = arch.capabilities()
+    const nbPoints = options.nbPoints || 100000
+    const fields = options.fields || ['displ', 'stress']
+    const repeat = options.repeat || 3
+    const chunkSize = options.chunkSize || 65536
+    const ctx: BenchmarkContext = { arch, resolution: options.resolution || 12, eps: 1e-9, maxIter: 1000, solver: capabilities.solvers[0] }
+
+    const mesh = disc(ctx.resolution, (u, v) => [0, u, v])
+    const model = newModel(ctx, false)
+    const surface = newSurface(ctx, model, mesh)
+    surface.setBC('normal', 'free', 1)
+    surface.setBC('strike', 'free', 0)
+    surface.setBC('dip', 'free', 0)
+    solve(ctx, model)
+    const solution = new arch.Solution(model)
+
+    const typed = grid(nbPoints)
+    const array = Array.from(typed)
+
+    const results: Array<DataPathTiming> = []
+    fields.forEach(field => {
+        const size = field === 'displ' ? 3 : 6
+        // Separate buffers, reset before each run (not timed), so that a path which writes nothing
+        // or only a part of the values is detected by the comparison with the array path
+        const out = new Float64Array(size * nbPoints)
+        const chunks = new Float64Array(size * nbPoints)
+        let reference: ArrayLike<number>
+        let arrayTime: number
+
+        const measure = (path: DataPath, run: () => ArrayLike<number>, reset?: Float64Array) => {
+            let time = Infinity
+            let values: ArrayLike<number>
+            for (let i = 0; i < repeat; ++i) {
+                if (reset) {
+                    reset.fill(NaN)
+                }
+                const start = performance.now()
+                values = run()
+                time = Math.min(time, performance.now() - start)
+            }
+            if (path === 'array') {
+                reference = values
+                arrayTime = time
+            }
+            const timing: DataPathTiming = {
+                path,
+                field,
+                time,
+                speedup: time > 0 ? arrayTime / time : 1,
+                difference: maxDifference(values, reference)
+            }
+            results.push(timing)
+            if (options.onResult) {
+                options.onResult(timing)
+            }
+        }
+
+        measure('array', () => solution[field](array))
+        measure('typed', () => {
+            solution[field](typed, { out })
+            return out
+        }, out)
+        measure('view', () => solution[field](typed, { view: true }).slice())
+        measure('chunked', () => {
+            solution.forEachChunk(field, typed, (values, first, count) => chunks.set(values.subarray(0, size * count), size * first), chunkSize)
+            return chunks
+        }, chunks)
+    })
+
+    return {
+        version: capabilities.version,
+        backend: capabilities.backend,
+        date: new Date().toISOString(),
+        nbPoints,
+        nbTriangles: mesh.index.length / 3,
+        results
+    }
+}
+
+// ----------------------------------------------------------------------
+
+interface BenchmarkContext {
+    arch: ArchModule
+    resolution: number
+    eps: number
+    maxIter: number
+    solver: string
+}
+
+const defaultTolerances: Record<BenchmarkName, number> = {
+    api: 0,
+    sneddon: 0.1,
+    ellipticalShear: 0.1,
+    okada: 1e-3,
+    cavity: 0.1,
+    conventions: 1e-6
+}
+
+const material: TDMaterial = { young: 1, poisson: 0.25 }
+
+/**
+ * A benchmark returns its error, and optionally why it failed
+ */
+type BenchmarkFunction = (ctx: BenchmarkContext) => number | { error: number, message?: string }
+
+const benchmarkFunctions: Record<BenchmarkName, BenchmarkFunction> = {
+    api: ctx => {
+        const missing: string[] = []
+        Object.keys(apiContract).forEach(className => {
+            const cls = (ctx.arch as unknown as Record<string, unknown>)[className]
+            if (typeof cls !== 'function') {
+                missing.push(className)
+                return
+            }
+            const prototype: Record<string, unknown> = cls.prototype
+            apiContract[className].forEach(method => {
+                if (typeof prototype[method] !== 'function') {
+                    missing.push(`${className}.${method}`)
+                }
+            })
+        })
+        if (typeof ctx.arch.license !== 'function' || !(ctx.arch.license() > 0)) {
+            missing.push('license')
+        }
+        return {
+            error: missing.length,
+            message: missing.length ? `Missing or invalid: ${missing.join(', ')}` : undefined
+        }
+    },
+
+    sneddon: ctx => {
+        // Penny-shaped crack in the plane x=0, under internal pressure
+        const radius = 1, pressure = 1
+        const mesh = disc(ctx.resolution, (u, v) => [0, radius * u, radius * v])
+        const model = newModel(ctx, false)
+        const surface = newSurface(ctx, model, mesh)
+        surface.setBC('normal', 'free', pressure)
+        surface.setBC('strike', 'free', 0)
+        surface.setBC('dip', 'free', 0)
+        solve(ctx, model)
+
+        const b = surface.displ(true, true)
+        const num: number[] = [], ana: number[] = []
+        centers(mesh).forEach((c, i) => {
+            num.push(b[3 * i])
+            ana.push(pennyCrackOpening(Math.hypot(c[1], c[2]), radius, pressure, material))
+        })
+        return relativeError(num, ana)
+    },
+
+    ellipticalShear: ctx => {
+        // Elliptical crack in the plane x=0, semi-axis a along the strike (y) and b along the dip (z)
+        const a = 1, b = 0.5, shear = 1
+        const mesh = disc(ctx.resolution, (u, v) => [0, a * u, b * v])
+        const model = newModel(ctx, false)
+        const surface = newSurface(ctx, model, mesh)
+        surface.setBC('normal', 'locked', 0)
+        surface.setBC('strike', 'free', shear)
+        surface.setBC('dip', 'free', 0)
+        solve(ctx, model)
+
+        // Signs depend on the convention, which is checked by the 'conventions' benchmark
+        const d = surface.displ(true, true)
+        const num: number[] = [], ana: number[] = []
+        centers(mesh).forEach((c, i) => {
+            const u = ellipticalCrackShear(c[1], c[2], a, b, [shear, 0], material)
+            num.push(Math.abs(d[3 * i + 1]), d[3 * i + 2])
+            ana.push(Math.abs(u[0]), 0)
+        })
+        return relativeError(num, ana)
+    },
+
+    okada: ctx => {
+        // Uniform slip on a rectangular fault in half-space, compared at the free surface
+        const fault: OkadaFault = { center: [0, 0, -5], strike: 30, dip: 60, length: 10, width: 4 }
+        const slip = { strike: 1, dip: -0.7, tensile: 0.5 }
+        const mesh = rectangle(fault, 2 * ctx.resolution, ctx.resolution)
+        const model = newModel(ctx, true)
+        const surface = newSurface(ctx, model, mesh)
+        surface.setBC('normal', 'locked', slip.tensile)
+        surface.setBC('strike', 'locked', slip.strike)
+        surface.setBC('dip', 'locked', slip.dip)
+        solve(ctx, model)
+
+        const points: FlatVectors = []
+        for (let i = -10; i <= 10; i += 2) {
+            for (let j = -10; j <= 10; j += 2) {
+                points.push(i, j, 0)
+            }
+        }
+        const num = new ctx.arch.Solution(model).displ(points)
+        const ana: number[] = []
+        for (let i = 0; i < points.length; i += 3) {
+            ana.push(...okadaSurfaceDisplacement(points[i], points[i + 1], fault, slip, material.poisson))
+        }
+        return relativeError(num, ana)
+    },
+
+    cavity: ctx => {
+        const radius = 1, pressure = 1
+        const mesh = sphere(Math.max(1, Math.round(Math.log2(ctx.resolution))), radius)
+        const model = newModel(ctx, false)
+        const surface = newSurface(ctx, model, mesh)
+        surface.setBC('normal', 'free', pressure)
+        surface.setBC('strike', 'free', 0)
+        surface.setBC('dip', 'free', 0)
+        solve(ctx, model)
+
+        const points: FlatVectors = []
+        for (let r = 2; r <= 4; ++r) {
+            points.push(r, 0, 0, 0, r, 0, 0, 0, -r, r / Math.SQRT2, r / Math.SQRT2, 0)
+        }
+        const num = new ctx.arch.Solution(model).displ(points)
+        const ana: number[] = []
+        for (let i = 0; i < points.length; i += 3) {
+            ana.push(...pressurizedCavity([points[i], points[i + 1], points[i + 2]], [0, 0, 0], radius, pressure, material).displ)
+        }
+        return relativeError(num, ana)
+    },
+
+    conventions: ctx => {
+        const imposed = [1, 2, 3]
+        const mesh: Mesh = { position: [0, 0, 0, 0, 1, 0, 0, 0, 1], index: [0, 1, 2] }
+        const model = newModel(ctx, false)
+        const surface = newSurface(ctx, model, mesh)
+        surface.setBC('normal', 'locked', imposed[0])
+        surface.setBC('strike', 'locked', imposed[1])
+        surface.setBC('dip', 'locked', imposed[2])
+        solve(ctx, model)
+
+        const filter = new ctx.arch.BurgerFilter()
+        filter.setupOkada()
+        const okada = filter.apply(surface.displ(true, true))
+        filter.setupPoly3D()
+        const poly3d = filter.apply(surface.displ(true, true))
+
+        return relativeError([...okada, ...poly3d], [...imposed, -imposed[2], imposed[1], imposed[0]])
+    }
+}
+
+/**
+ * The classes and methods which must be provided by the library
+ */
+const apiContract: { [className: string]: string[] } = {
+    Model: ['setHalfSpace', 'setMaterial', 'addSurface', 'addRemote', 'forEachTriangle', 'bounds'],
+    Surface: ['setBC', 'setBCValues', 'displ', 'displPlus', 'displMinus', 'addConstraint', 'forEachTriangle', 'nbTriangles'],
+    Forward: ['run', 'select', 'setEps', 'setMaxIter', 'setNbCores'],
+    Solution: ['displ', 'strain', 'stress', 'burgers', 'residualTractions', 'forEachChunk'],
+    Influence: ['traction', 'displacement', 'strain', 'stress'],
+    SlipInversion: [],
+    SurfaceAttributeInterpolation: [],
+    UserRemote: [],
+    AndersonianRemote: [],
+    Coulomb: [],
+    VectorIt: ['forEach', 'map', 'value', 'set'],
+    TensorIt: ['forEach', 'map', 'value', 'set'],
+    BurgerFilter: ['apply', 'setAxisOrder', 'setAxisRevert', 'setupOkada', 'setupPoly3D']
+}
+
+interface Mesh {
+    position: FlatVectors
+    index: number[]
+}
+
+function newModel(ctx: BenchmarkContext, halfSpace: boolean): Model {
+    const model = new ctx.arch.Model()
+    model.setMaterial(material.poisson, material.young, 0)
+    model.setHalfSpace(halfSpace)
+    return model
+}
+
+function newSurface(ctx: BenchmarkContext, model: Model, mesh: Mesh): Surface {
+    const surface = new ctx.arch.Surface(mesh.position, mesh.index)
+    model.addSurface(surface)
+    return surface
+}
+
+function solve(ctx: BenchmarkContext, model: Model) {
+    const solver = new ctx.arch.Forward(model, ctx.solver, ctx.eps, ctx.maxIter)
+    solver.run()
+}
+
+function relativeError(num: ArrayLike<number>, ana: ArrayLike<number>): number {
+    if (num.length !== ana.length) {
+        throw new Error(`Expected ${ana.length} values, got ${num.length}`)
+    }
+    let e = 0, n = 0
+    for (let i = 0; i < ana.length; ++i) {
+        e += (num[i] - ana[i]) ** 2
+        n += ana[i] ** 2
+    }
+    return Math.sqrt(e / n)
+}
+
+function maxDifference(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length) {
+        return Infinity
+    }
+    let d = 0
+    for (let i = 0; i < a.length; ++i) {
+        const e = Math.abs(a[i] - b[i])
+        if (Number.isNaN(e)) {
+            return Infinity
+        }
+        d = Math.max(d, e)
+    }
+    return d
+}
+
+/**
+ * About n observation points on a regular grid around the unit disc, shifted so that
+ * no point lies in the plane of the disc
+ */
+function grid(n: number): Float64Array {
+    const m = Math.max(1, Math.round(Math.cbrt(n)))
+    const position = new Float64Array(3 * n)
+    for (let i = 0; i < n; ++i) {
+        const a = i % m, b = Math.floor(i / m) % m, c = Math.floor(i / (m * m))
+        position[3 * i] = -2 + 4 * (a + 0.25) / m
+        position[3 * i + 1] = -2 + 4 * b / m
+        position[3 * i + 2] = -2 + 4 * c / m
+    }
+    return position
+}
+function centers(mesh: Mesh): Vector[] {
+    const result: Vector[] = []
+    const p = mesh.position
+    for (let i = 0; i < mesh.index.length; i += 3) {
+        const [a, b, c] = [mesh.index[i], mesh.index[i + 1], mesh.index[i + 2]]
+        result.push([0, 1, 2].map(k => (p[3 * a + k] + p[3 * b + k] + p[3 * c + k]) / 3) as Vector)
+    }
+    return result
+}
+
+/**
+ * A unit disc made of concentric rings, mapped in 3D. The triangles are counter-clockwise
+ * in the (u, v) plane.
+ */
+function disc(nRings: number, map: (u: number, v: number) => Vector): Mesh {
+    const position: number[] = [...map(0, 0)]
+    const index: number[] = []
+    let previous = [0]
+    for (let i = 1; i <= nRings; ++i) {
+        const n = 6 * i
+        const ring: number[] = []
+        for (let k = 0; k < n; ++k) {
+            const angle = 2 * Math.PI * k / n
+            ring.push(position.length / 3)
+            position.push(...map(i / nRings * Math.cos(angle), i / nRings * Math.sin(angle)))
+        }
+        // stitch the previous ring with the new one (a fan around the center for the first ring)
+        const m = previous.length
+        const steps = m > 1 ? m : 0
+        let a = 0, b = 0
+        while (a < steps || b < n) {
+            if (b < n && (a >= steps || (b + 1) / n <= (a + 1) / m)) {
+                index.push(previous[a % m], ring[b % n], ring[(b + 1) % n])
+                ++b
+            } else {
+                index.push(previous[a % m], ring[b % n], previous[(a + 1) % m])
+                ++a
+            }
+        }
+        previous = ring
+    }
+    return { position, index }
+}
+
+/**
+ * A rectangular fault meshed with a regular grid, with the normal oriented as in Okada
+ */
+function rectangle(fault: OkadaFault, nStrike: number, nDip: number): Mesh {
+    const strike = fault.strike * Math.PI / 180
+    const dip = fault.dip * Math.PI / 180
+    const s: Vector = [Math.sin(strike), Math.cos(strike), 0]
+    const u: Vector = [-Math.cos(dip) * Math.cos(strike), Math.cos(dip) * Math.sin(strike), Math.sin(dip)]
+    const position: number[] = []
+    const index: number[] = []
+    for (let j = 0; j <= nDip; ++j) {
+        for (let i = 0; i <= nStrike; ++i) {
+            const a = (i / nStrike - 0.5) * fault.length
+            const b = (j / nDip - 0.5) * fault.width
+            position.push(...[0, 1, 2].map(k => fault.center[k] + a * s[k] + b * u[k]))
+        }
+    }
+    const id = (i: number, j: number) => j * (nStrike + 1) + i
+    for (let j = 0; j < nDip; ++j) {
+        for (let i = 0; i < nStrike; ++i) {
+            index.push(id(i, j), id(i + 1, j), id(i + 1, j + 1))
+            index.push(id(i, j), id(i + 1, j + 1), id(i, j + 1))
+        }
+    }
+    return { position, index }
+}
+
+/**
+ * An icosphere with outward normals
+ */
+function sphere(subdivisions: number, radius: number): Mesh {
+    const t = (1 + Math.sqrt(5)) / 2
+    let vertices: Vector[] = [
+        [-1, t, 0], [1, t, 0], [-1, -t, 0], [1, -t, 0],
+        [0, -1, t], [0, 1, t], [0, -1, -t], [0, 1, -t],
+        [t, 0, -1], [t, 0, 1], [-t, 0, -1], [-t, 0, 1]
+    ]
+    let faces: number[][] = [
+        [0, 11, 5], [0, 5, 1], [0, 1, 7], [0, 7, 10], [0, 10, 11],
+        [1, 5, 9], [5, 11, 4], [11, 10, 2], [10, 7, 6], [7, 1, 8],
+        [3, 9, 4], [3, 4, 2], [3, 2, 6], [3, 6, 8], [3, 8, 9],
+        [4, 9, 5], [2, 4, 11], [6, 2, 10], [8, 6, 7], [9, 8, 1]
+    ]
+    const unit = (v: Vector): Vector => {
+        const n = Math.hypot(v[0], v[1], v[2])
+        return [v[0] / n, v[1] / n, v[2] / n]
+    }
+    vertices = vertices.map(unit)
+    for (let s = 0; s < subdivisions; ++s) {
+        const cache = new Map<string, number>()
+        const middle = (a: number, b: number) => {
+            const key = a < b ? `${a}-${b}` : `${b}-${a}`
+            if (!cache.has(key)) {
+                const [p, q] = [vertices[a], vertices[b]]
+                vertices.push(unit([(p[0] + q[0]) / 2, (p[1] + q[1]) / 2, (p[2] + q[2]) / 2]))
+                cache.set(key, vertices.length - 1)
+            }
+            return cache.get(key)
+        }
+        faces = faces.flatMap(([a, b, c]) => {
+            const ab = middle(a, b), bc = middle(b, c), ca = middle(c, a)
+            return [[a, ab, ca], [b, bc, ab], [c, ca, bc], [ab, bc, ca]]
+        })
+    }
+    return {
+        position: vertices.flatMap(v => [radius * v[0], radius * v[1], radius * v[2]]),
+        index: faces.flat()
+    }
+}
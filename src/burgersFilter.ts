@@ -1,4 +1,5 @@
 import { Vectord } from './types'
+import { Convention, ConventionName } from './conventionConverter'
 
 
 /**
@@ -33,6 +34,9 @@ import { Vectord } from './types'
  * along the dip direction but reverted compared to Poly3D convention (left image). The x-axis
  * corresponds to the normal of the triangular element, whereas for Poly3D it is the dip direction.
  * </i></blockquote></center>
+ *
+ * The filter only reorders the computed Burger's vectors. To also convert boundary conditions,
+ * imposed displacements and tractions, see {@link ConventionConverter} and {@link Model.setConvention}.
  */
 export class BurgerFilter {
     /**
@@ -93,4 +97,16 @@ export class BurgerFilter {
      * ```
      */
     setupPoly3D(): void { }
+
+    /**
+     * @brief Convenient method to switch to any convention (see {@link conventionPresets}).
+     * Only the axes are used, the sign of the stresses being irrelevant for the Burger's vectors.
+     * @example
+     * ```javascript
+     * const filter = new arch.BurgerFilter()
+     * filter.setupConvention('tde') // [strike, dip, normal]
+     * const burgers = filter.apply( surface.displ(true, true) )
+     * ```
+     */
+    setupConvention(convention: ConventionName | Convention): void { }
 }
@@ -143,6 +143,191 @@ export class Coulomb implements Constraint {
     //public stick: boolean
 }
 
+/**
+ * Prevent the interpenetration of the two sides of the triangles, i.e., the opening
+ * (normal component of the Burger's vector in Okada convention) is always `>= 0`.
+ * As opposed to a [[UserDic]], this constraint can be used with the parallel solver.
+ * @example
+ * ```javascript
+ * surface.addConstraint( new arch.NoInterpenetration() )
+ * ```
+ * @category Constraints
+ */
+export class NoInterpenetration implements Constraint {
+    constructor()
+}
+
+/**
+ * Tensile strength cutoff: a triangle can open only when the normal traction exceeds
+ * the tensile strength. Below the strength, the triangle stays closed.
+ * @example
+ * ```javascript
+ * const c = new arch.TensileCutoff(5e6)
+ * surface.addConstraint(c)
+ * ```
+ * @category Constraints
+ */
+export class TensileCutoff implements Constraint {
+    constructor()
+    constructor(strength: number | Vectord)
+
+    /**
+     * @brief The tensile strength (positive), one for all triangles or one per triangle
+     * @default 0
+     */
+    setStrength(v: number | Vectord)
+}
+
+/**
+ * Linear slip-weakening friction. The friction coefficient decreases linearly from the
+ * static to the dynamic value as the slip magnitude increases from 0 to the critical
+ * distance `dc`, and remains at the dynamic value beyond.
+ * @example
+ * ```javascript
+ * const c = new arch.SlipWeakening()
+ * c.setStaticFriction(0.6)
+ * c.setDynamicFriction(0.2)
+ * c.setCriticalDistance(0.4)
+ * surface.addConstraint(c)
+ * ```
+ * @see [[Coulomb]]
+ * @category Constraints
+ */
+export class SlipWeakening implements Constraint {
+    constructor()
+    constructor(staticFriction: number | Vectord, dynamicFriction: number | Vectord, dc: number | Vectord)
+
+    /**
+     * @brief The static friction coefficient
+     * @default 0.6
+     */
+    setStaticFriction(f: number | Vectord)
+
+    /**
+     * @brief The dynamic friction coefficient
+     * @default 0.6
+     */
+    setDynamicFriction(f: number | Vectord)
+
+    /**
+     * @brief The critical slip distance
+     * @default 1
+     */
+    setCriticalDistance(dc: number | Vectord)
+
+    /**
+     * @brief The cohesion
+     * @default 0
+     */
+    setCohesion(v: number | Vectord)
+}
+
+/**
+ * Velocity independent Coulomb friction with dilatancy: when a triangle slips, it also
+ * opens by `tan(ψ)` times the slip magnitude, with `ψ` the dilatancy angle.
+ * @example
+ * ```javascript
+ * const c = new arch.DilatantFriction(0.6, 0, 5) // friction, cohesion, dilatancy angle
+ * surface.addConstraint(c)
+ * ```
+ * @see [[Coulomb]]
+ * @category Constraints
+ */
+export class DilatantFriction implements Constraint {
+    constructor()
+    constructor(friction: number | Vectord, cohesion: number | Vectord, dilatancy: number | Vectord)
+
+    /**
+     * @brief The static sliding friction coefficient
+     * @default 0
+     */
+    setFriction(f: number | Vectord)
+
+    /**
+     * @brief The cohesion
+     * @default 0
+     */
+    setCohesion(v: number | Vectord)
+
+    /**
+     * @brief The dilatancy angle in degrees
+     * @default 0
+     */
+    setDilatancy(angle: number | Vectord)
+}
+
+/**
+ * Bound the magnitude of the slip (the shear part of the Burger's vector). If the
+ * computed slip is greater than the bound, it is scaled down, keeping its direction.
+ * @example
+ * ```javascript
+ * surface.addConstraint( new arch.MaxSlip(2.5) )
+ * ```
+ * @category Constraints
+ */
+export class MaxSlip implements Constraint {
+    constructor()
+    constructor(max: number | Vectord)
+
+    /**
+     * @brief The maximum slip magnitude, one for all triangles or one per triangle
+     * @default Infinity
+     */
+    setMax(v: number | Vectord)
+}
+
+/**
+ * Bound each component of the Burger's vector (in local coordinate system) between
+ * a minimum and a maximum value. This is the declarative version of the bounded [[UserDic]]
+ * of [[Example_commented]].
+ * @example
+ * ```javascript
+ * // Make:  0 < dx < 5
+ * const c = new arch.DisplacementBounds()
+ * c.setBounds("normal", 0, 5)
+ * surface.addConstraint(c)
+ * ```
+ * @category Constraints
+ */
+export class DisplacementBounds implements Constraint {
+    constructor()
+
+    /**
+     * @brief Set the bounds for one axis
+     * @param axis The axis index or name (see [[Surface.setBC]])
+     * @param min The minimum value, one for all triangles or one per triangle (default -Infinity)
+     * @param max The maximum value, one for all triangles or one per triangle (default Infinity)
+     */
+    setBounds(axis: number | string, min: number | Vectord, max: number | Vectord)
+}
+
+/**
+ * Apply several constraints on the same [[Surface]] in a defined order. By default, the
+ * constraints added to a surface using [[Surface.addConstraint]] are applied in the order of
+ * addition. This class makes the order explicit and allows to reuse the same set of constraints
+ * on several surfaces.
+ * @example
+ * ```javascript
+ * const c = new arch.ConstraintSequence([
+ *     new arch.Coulomb(0.6, 0),
+ *     new arch.NoInterpenetration(),
+ *     new arch.MaxSlip(2.5)
+ * ])
+ * fault1.addConstraint(c)
+ * fault2.addConstraint(c)
+ * ```
+ * @category Constraints
+ */
+export class ConstraintSequence implements Constraint {
+    constructor()
+    constructor(constraints: Array<Constraint>)
+
+    /**
+     * @brief Append a constraint at the end of the sequence
+     */
+    add(c: Constraint): void
+}
+
 // --------------------------------------------------------------------------
 
 /**
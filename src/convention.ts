@@ -12,6 +12,23 @@ filter.axisOrder  = ['dip', 'strike', 'normal']
 filter.axisRevert = [true, false, false]
 const displ = filter.apply( surface.displ() )
 ```
+
+To convert consistently all the quantities given in local coordinate system (boundary conditions, imposed displacements,
+Burger's vectors, tractions and local frame vectors), in both directions, use a {@link ConventionConverter} with one of the
+predefined conventions (`okada`, `poly3d`, `ibem3d` and `tde`, see {@link conventionPresets}) or your own {@link Convention}:
+```javascript
+const { ConventionConverter } = require('@youwol/arch-doc')
+
+const toArch = new ConventionConverter('poly3d') // from Poly3D to Okada
+const bc = toArch.bc('z', 'traction', 1e6)
+surface.setBC(bc.axis, bc.type, bc.value)
+
+const burgers = toArch.inverse().vectors( surface.displ(true, true) )
+```
+Alternatively, the whole API of a model can speak the chosen convention using {@link Model.setConvention}:
+```javascript
+model.setConvention('poly3d')
+```
 <br><br>
 
 ## Engineer vs geologist
@@ -0,0 +1,336 @@
+import { FlatVectors, Vector, Vectord } from './types'
+
+/**
+ * The axes of the local coordinate system of a triangle, as defined by **Arch** (see {@link Conventions})
+ * @category Conventions
+ */
+export type ConventionAxis = 'normal' | 'strike' | 'dip'
+
+/**
+ * A convention for the local coordinate system of the triangles and for the sign of the
+ * stresses. It is defined relative to the **Arch** (Okada) convention, in the same way as
+ * {@link BurgerFilter.setAxisOrder} and {@link BurgerFilter.setAxisRevert}.
+ * @example
+ * ```js
+ * // Poly3D: x is the down-dip direction, y the strike and z the normal,
+ * // compression is positive
+ * const poly3d = {
+ *     name               : 'poly3d',
+ *     axisOrder          : ['dip', 'strike', 'normal'],
+ *     axisRevert         : [true , false   , false   ],
+ *     compressionPositive: true
+ * }
+ * ```
+ * @category Conventions
+ */
+export interface Convention {
+    name?: string
+
+    /**
+     * @brief The **Arch** axis of each component `x`, `y` and `z` of the convention
+     */
+    axisOrder: [ConventionAxis, ConventionAxis, ConventionAxis]
+
+    /**
+     * @brief Whether each component `x`, `y` and `z` of the convention points in the opposite
+     * direction of the corresponding **Arch** axis
+     */
+    axisRevert: [boolean, boolean, boolean]
+
+    /**
+     * @brief True for the geologist convention (compression is positive), which flips the sign
+     * of the tractions
+     */
+    compressionPositive: boolean
+}
+
+/**
+ * The names of the predefined conventions (see {@link conventionPresets}):
+ * - `okada`: the **Arch** convention, `[normal, strike, dip]` with the dip pointing upward,
+ * compression negative
+ * - `poly3d`: [Poly3D](https://searchworks.stanford.edu/view/2830996), `[dip, strike, normal]`
+ * with the dip pointing downward, compression positive
+ * - `ibem3d`: iBem3D, same axes as Poly3D but compression negative
+ * - `tde`: [Nikkhoo and Walter, 2015](https://academic.oup.com/gji/article/201/2/1119/572006),
+ * `[strike, dip, normal]` (i.e., strike-slip, dip-slip and tensile components), compression negative
+ * @category Conventions
+ */
+export type ConventionName = 'okada' | 'poly3d' | 'ibem3d' | 'tde'
+
+/**
+ * The predefined conventions
+ * @category Conventions
+ */
+export const conventionPresets: Record<ConventionName, Convention> = {
+    okada: {
+        name: 'okada',
+        axisOrder: ['normal', 'strike', 'dip'],
+        axisRevert: [false, false, false],
+        compressionPositive: false
+    },
+    poly3d: {
+        name: 'poly3d',
+        axisOrder: ['dip', 'strike', 'normal'],
+        axisRevert: [true, false, false],
+        compressionPositive: true
+    },
+    ibem3d: {
+        name: 'ibem3d',
+        axisOrder: ['dip', 'strike', 'normal'],
+        axisRevert: [true, false, false],
+        compressionPositive: false
+    },
+    tde: {
+        name: 'tde',
+        axisOrder: ['strike', 'dip', 'normal'],
+        axisRevert: [false, false, false],
+        compressionPositive: false
+    }
+}
+
+/**
+ * @brief Get a convention given its name, or check a user-defined one
+ * @throws If the name is unknown or if the axes are not a permutation of `normal`, `strike` and `dip`
+ * @category Conventions
+ */
+export function getConvention(convention: ConventionName | Convention): Convention {
+    if (typeof convention === 'string') {
+        const preset = conventionPresets[convention.toLowerCase() as ConventionName]
+        if (preset === undefined) {
+            throw new Error(`Unknown convention "${convention}". Expected one of ${Object.keys(conventionPresets).join(', ')}`)
+        }
+        return preset
+    }
+    const axes = convention.axisOrder.map(archAxis)
+    if (convention.axisRevert.length !== 3 || new Set(axes).size !== 3) {
+        throw new Error(`Invalid convention${convention.name ? ` "${convention.name}"` : ''}: axisOrder must be a permutation of normal, strike and dip`)
+    }
+    return convention
+}
+
+/**
+ * The result of {@link ConventionConverter.bc}, ready to be passed to {@link Surface.setBC}
+ * @category Conventions
+ */
+export interface ConvertedBC {
+    axis: number
+    type: 'free' | 'locked'
+    value: number | Vectord | ((x: number, y: number, z: number) => number)
+}
+
+/**
+ * Convert the quantities expressed in the local coordinate system of the triangles from one
+ * convention to another: Burger's vectors, imposed displacements, tractions, boundary conditions and
+ * local frame vectors. As opposed to {@link BurgerFilter}, which only reorders the computed Burger's
+ * vectors, the converter also takes care of the sign of the tractions and of the boundary condition
+ * axes, and works in both directions (see {@link inverse}).
+ *
+ * Components along an axis are moved and flipped according to {@link Convention.axisOrder} and
+ * {@link Convention.axisRevert}. Tractions, and boundary values of `free` axes, are also flipped when
+ * the conventions differ by {@link Convention.compressionPositive}.
+ * @example
+ * ```js
+ * const { ConventionConverter } = require('@youwol/arch-doc')
+ *
+ * // Translate a legacy Poly3D model
+ * const toArch = new ConventionConverter('poly3d')
+ *
+ * const bc = toArch.bc('z', 'traction', 1e6) // a compressive normal traction in Poly3D
+ * surface.setBC(bc.axis, bc.type, bc.value) // -> normal axis, value -1e6
+ *
+ * surface.setDisplFromTriangles( toArch.vectors(poly3dBurgers) )
+ *
+ * solver.run()
+ *
+ * // ...and get the results back in Poly3D
+ * const fromArch  = toArch.inverse()
+ * const burgers   = fromArch.vectors( surface.displ(true, true) )
+ * const tractions = fromArch.tractions( new arch.Solution(model).residualTractions()[0] )
+ * ```
+ * If the whole model has to use the same convention, see {@link Model.setConvention}.
+ * @category Conventions
+ */
+export class ConventionConverter {
+    private readonly source: Convention
+    private readonly target: Convention
+    // for each target component, the source component and its sign
+    private readonly index: Vector
+    private readonly sign: Vector
+    private readonly stressSign: number
+
+    /**
+     * @param from The convention of the given values
+     * @param to The convention of the returned values
+     * @default to 'okada', i.e., **Arch**
+     */
+    constructor(from: ConventionName | Convention, to: ConventionName | Convention = 'okada') {
+        this.source = getConvention(from)
+        this.target = getConvention(to)
+        const index: number[] = []
+        const sign: number[] = []
+        this.target.axisOrder.forEach((axis, k) => {
+            const i = this.source.axisOrder.indexOf(axis)
+            index.push(i)
+            sign.push(this.source.axisRevert[i] === this.target.axisRevert[k] ? 1 : -1)
+        })
+        this.index = index as Vector
+        this.sign = sign as Vector
+        this.stressSign = this.source.compressionPositive === this.target.compressionPositive ? 1 : -1
+    }
+
+    /**
+     * @brief The convention of the given values
+     */
+    get from(): Convention {
+        return this.source
+    }
+
+    /**
+     * @brief The convention of the returned values
+     */
+    get to(): Convention {
+        return this.target
+    }
+
+    /**
+     * @brief Get the converter for the opposite direction
+     */
+    inverse(): ConventionConverter {
+        return new ConventionConverter(this.target, this.source)
+    }
+
+    /**
+     * @brief Convert one vector given in local coordinate system (Burger's vector, displacement or
+     * component of a local frame vector)
+     */
+    vector(v: Vector): Vector {
+        return [0, 1, 2].map(k => this.sign[k] * v[this.index[k]]) as Vector
+    }
+
+    /**
+     * @brief Convert a flat array of vectors given in local coordinate system, such as Burger's
+     * vectors (see {@link Surface.displ}, {@link Solution.burgers} or {@link Surface.setDisplFromTriangles})
+     */
+    vectors(values: FlatVectors): FlatVectors {
+        checkFlat(values)
+        const result: FlatVectors = new Array(values.length)
+        for (let i = 0; i < values.length; i += 3) {
+            for (let k = 0; k < 3; ++k) {
+                result[i + k] = this.sign[k] * values[i + this.index[k]]
+            }
+        }
+        return result
+    }
+
+    /**
+     * @brief Convert one traction vector given in local coordinate system
+     */
+    traction(t: Vector): Vector {
+        return this.vector(t).map(v => this.stressSign * v) as Vector
+    }
+
+    /**
+     * @brief Convert a flat array of traction vectors given in local coordinate system
+     * (see {@link Solution.residualTractions})
+     */
+    tractions(values: FlatVectors): FlatVectors {
+        return this.vectors(values).map(v => this.stressSign * v)
+    }
+
+    /**
+     * @brief Get the component of the returned values corresponding to an axis of the given
+     * values, and the sign to apply
+     * @param axis The axis index (0, 1 or 2), its name (`x`, `y` or `z`) or the name of the axis
+     * in the source convention (`normal`, `strike` or `dip`)
+     */
+    axis(axis: number | string): { axis: number, sign: number } {
+        const i = this.sourceAxis(axis)
+        const k = this.index.indexOf(i)
+        return { axis: k, sign: this.sign[k] }
+    }
+
+    /**
+     * @brief Convert the boundary condition of one axis (see {@link Surface.setBC} for the
+     * meaning of the parameters and the synonyms of the types)
+     * @throws If the axis or the type is unknown
+     */
+    bc(axis: number | string, type: string, value: number | Vectord | ((x: number, y: number, z: number) => number)): ConvertedBC {
+        const a = this.axis(axis)
+        const t = bcType(type)
+        const s = t === 'free' ? a.sign * this.stressSign : a.sign
+        let v: ConvertedBC['value']
+        if (typeof value === 'function') {
+            v = s === 1 ? value : (x: number, y: number, z: number) => -value(x, y, z)
+        } else if (Array.isArray(value)) {
+            v = value.map(x => s * x)
+        } else {
+            v = s * value
+        }
+        return { axis: a.axis, type: t, value: v }
+    }
+
+    /**
+     * @brief Convert the boundary values of all the axes at once (see {@link Surface.setBCValues})
+     * @param values The flat array of values, 3 per triangle
+     * @param types The types of boundary condition of the axes `x`, `y` and `z` of the source convention
+     */
+    bcValues(values: FlatVectors, types: [string, string, string]): FlatVectors {
+        const stress = types.map(t => bcType(t) === 'free' ? this.stressSign : 1)
+        const result = this.vectors(values)
+        for (let i = 0; i < result.length; i += 3) {
+            for (let k = 0; k < 3; ++k) {
+                result[i + k] *= stress[this.index[k]]
+            }
+        }
+        return result
+    }
+
+    private sourceAxis(axis: number | string): number {
+        if (typeof axis === 'number') {
+            if (axis === 0 || axis === 1 || axis === 2) {
+                return axis
+            }
+        } else {
+            const name = axis.toLowerCase()
+            const xyz = ['x', 'y', 'z'].indexOf(name)
+            if (xyz !== -1) {
+                return xyz
+            }
+            const i = this.source.axisOrder.indexOf(name as ConventionAxis)
+            if (i !== -1) {
+                return i
+            }
+        }
+        throw new Error(`Unknown axis "${axis}"`)
+    }
+}
+
+// ----------------------------------------------------------------------
+
+const tractionTypes = ['t', '0', 'free', 'traction', 'neumann', 'unknown']
+const displacementTypes = ['b', '1', 'displ', 'displacement', 'fixed', 'dirichlet', 'locked', 'imposed']
+
+function bcType(type: string): 'free' | 'locked' {
+    const t = String(type).toLowerCase()
+    if (tractionTypes.includes(t)) {
+        return 'free'
+    }
+    if (displacementTypes.includes(t)) {
+        return 'locked'
+    }
+    throw new Error(`Unknown boundary condition type "${type}"`)
+}
+
+function archAxis(axis: string): number {
+    const i = ['normal', 'strike', 'dip'].indexOf(axis)
+    if (i === -1) {
+        throw new Error(`Unknown axis "${axis}". Expected normal, strike or dip`)
+    }
+    return i
+}
+
+function checkFlat(values: FlatVectors) {
+    if (values.length % 3 !== 0) {
+        throw new Error(`The length of a flat array of vectors must be a multiple of 3, got ${values.length}`)
+    }
+}
@@ -0,0 +1,138 @@
+import { Remote } from './remote'
+import { Solution } from './solution'
+import { Surface } from './surface'
+import { FlatVectors, Vectord } from './types'
+
+/**
+ * How the slip direction (rake) of the receivers is chosen in {@link CoulombStressChange}
+ * - `fixed`: the rake given by {@link CoulombStressChange.setRake}
+ * - `max-shear`: the direction of the resolved shear stress change on each receiver
+ * - `optimal`: the receiver planes (and rakes) are the optimally oriented planes for
+ * the total stress, i.e., the background stress plus the stress change. A background stress is
+ * required (see {@link CoulombStressChange.setBackground}) and the given orientations are ignored.
+ * @category Stress analysis
+ */
+export type RakeMode = 'fixed' | 'max-shear' | 'optimal'
+
+/**
+ * The result of {@link CoulombStressChange.onSurface} and {@link CoulombStressChange.onPlanes},
+ * one value per receiver point
+ * @category Stress analysis
+ */
+export interface CoulombStressResult {
+    /**
+     * @brief The position of the receiver points
+     */
+    position: FlatVectors
+
+    /**
+     * @brief The normal of the receiver planes (useful for the `optimal` rake mode)
+     */
+    planeNormal: FlatVectors
+
+    /**
+     * @brief The rake in degrees used for each receiver
+     */
+    rake: Vectord
+
+    /**
+     * @brief The normal stress change, positive for unclamping (engineer convention)
+     */
+    normal: Vectord
+
+    /**
+     * @brief The shear stress change resolved along the rake
+     */
+    shear: Vectord
+
+    /**
+     * @brief The Coulomb failure stress change `ΔCFS = Δτ + μ'.Δσn`, where
+     * `μ' = μ(1 - B)` is the effective friction
+     */
+    cfs: Vectord
+}
+
+/**
+ * Compute the Coulomb failure stress change (ΔCFS) on receiver faults or planes, due to
+ * the slip computed on the surfaces of a model.
+ *
+ * Receivers can be either surfaces (see {@link onSurface}), using the normal and the local
+ * frame of each triangle (see {@link Triangle.toLocal}), or planes of uniform orientation
+ * at given points (see {@link onPlanes}).
+ *
+ * As for the rest of **Arch**, the engineer convention is used: a positive normal stress
+ * change means unclamping.
+ * @example
+ * ```js
+ * solver.run()
+ * const solution = new arch.Solution(model)
+ *
+ * const cfs = new arch.CoulombStressChange(solution)
+ * cfs.setFriction(0.6)
+ * cfs.setSkempton(0.5)
+ * cfs.setRakeMode('fixed')
+ * cfs.setRake(180) // right-lateral
+ *
+ * // Receiver fault, not part of the model
+ * const r1 = cfs.onSurface(receiver)
+ *
+ * // Vertical receiver planes striking N30 on a grid
+ * const r2 = cfs.onPlanes(gridPositions, 30, 90)
+ * console.log( Math.max(...r2.cfs) )
+ * ```
+ * @category Stress analysis
+ */
+export class CoulombStressChange {
+    /**
+     * @param solution The solution providing the stress change
+     * (see {@link Solution.stress})
+     */
+    constructor(solution: Solution)
+
+    /**
+     * @brief The friction coefficient of the receivers
+     * @default 0.4
+     */
+    setFriction(mu: number): void
+
+    /**
+     * @brief The Skempton coefficient in [0, 1], used to compute the effective friction
+     * `μ' = μ(1 - B)`
+     * @default 0
+     */
+    setSkempton(B: number): void
+
+    /**
+     * @brief How the rake is chosen
+     * @default 'fixed'
+     */
+    setRakeMode(mode: RakeMode): void
+
+    /**
+     * @brief The rake in degrees (Aki and Richards convention) for the `fixed` mode,
+     * either one for all receivers or one per receiver
+     * @default 0
+     */
+    setRake(rake: number | Vectord): void
+
+    /**
+     * @brief The background stress (e.g., the remote of the model). It is required by the
+     * `optimal` rake mode. When provided, the normal and shear stresses of the result are
+     * still the changes only.
+     * @see {@link Remote.valueAt}
+     */
+    setBackground(remote: Remote): void
+
+    /**
+     * @brief Compute the ΔCFS at the triangle centers of a receiver surface. The receiver
+     * surface should not be part of the model, otherwise the stress is evaluated on the
+     * discontinuity (see {@link Solution.setDelta}).
+     */
+    onSurface(surface: Surface): CoulombStressResult
+
+    /**
+     * @brief Compute the ΔCFS at given points for receiver planes given by their strike
+     * and dip (in degrees), either one for all points or one per point
+     */
+    onPlanes(position: FlatVectors, strike: number | Vectord, dip: number | Vectord): CoulombStressResult
+}
@@ -0,0 +1,257 @@
+import { Solution } from './solution'
+import { Ramp, RampType } from './insar'
+import { FlatTensors, FlatVectors, Vector, Vectorb, Vectord } from './types'
+
+/**
+ * The misfit between a {@link Dataset} and the values predicted by a {@link Solution}
+ * @category Datasets
+ */
+export interface MisfitReport {
+    /**
+     * @brief The name of the dataset
+     */
+    name: string
+
+    /**
+     * @brief The predicted observables, in the same order as the data
+     */
+    predicted: Vectord
+
+    /**
+     * @brief The residuals `data - predicted`
+     */
+    residuals: Vectord
+
+    /**
+     * @brief The root mean square of the residuals
+     */
+    rms: number
+
+    /**
+     * @brief The weighted misfit `sum((r/sigma)^2)`, with `r` the residuals
+     * and `sigma` the uncertainties
+     */
+    weightedMisfit: number
+
+    /**
+     * @brief The variance reduction in percent, `100*(1 - sum(r^2)/sum(d^2))`,
+     * with `d` the data
+     */
+    varianceReduction: number
+}
+
+/**
+ * A set of observations which can predict its observables from a {@link Solution}.
+ * Datasets are consumed by the inversions (see {@link SlipInversion.addDataset} and
+ * {@link StressInversion.addDataset}), but can also be used alone to compare a forward
+ * model with data.
+ * @example
+ * ```js
+ * const gps = new arch.GpsDataset(positions, displ, [true, true, false])
+ *
+ * solver.run()
+ * const report = gps.misfit( new arch.Solution(model) )
+ * console.log(`rms=${report.rms}, VR=${report.varianceReduction.toFixed(1)}%`)
+ * ```
+ * @category Datasets
+ */
+export interface Dataset {
+    /**
+     * @brief The name of the dataset (used in the {@link MisfitReport})
+     */
+    name(): string
+    setName(name: string): void
+
+    /**
+     * @brief The weight of the dataset in an inversion
+     * @default 1
+     */
+    weight(): number
+    setWeight(w: number): void
+
+    /**
+     * @brief The number of observables (scalar values)
+     */
+    size(): number
+
+    /**
+     * @brief The positions of the measures
+     */
+    position(): FlatVectors
+
+    /**
+     * @brief The observed values as a flat array of {@link size} scalars
+     */
+    data(): Vectord
+
+    /**
+     * @brief The uncertainty (standard deviation) of each observed value
+     */
+    sigma(): Vectord
+
+    /**
+     * @brief Predict the observables from a solution
+     */
+    predict(solution: Solution): Vectord
+
+    /**
+     * @brief Compare the observed and predicted values
+     */
+    misfit(solution: Solution): MisfitReport
+}
+
+/**
+ * Displacement vectors measured by GPS stations
+ * @category Datasets
+ */
+export class GpsDataset implements Dataset {
+    /**
+     * @param position The position of the stations
+     * @param data The displacements, one value per station and valid axis
+     * @param valid The validity of each axis (e.g., `[true, true, false]` for horizontal only)
+     * @param sigma The uncertainties, either one for all or one per value (default 1)
+     */
+    constructor(position: FlatVectors, data: Vectord, valid: Vectorb, sigma?: number | Vectord)
+
+    name(): string
+    setName(name: string): void
+    weight(): number
+    setWeight(w: number): void
+    size(): number
+    position(): FlatVectors
+    data(): Vectord
+    sigma(): Vectord
+    predict(solution: Solution): Vectord
+    misfit(solution: Solution): MisfitReport
+}
+
+/**
+ * Displacements projected along the line of sight (LOS) of a satellite. The observable is
+ * the dot product of the displacement with the LOS unit vector, which can differ from one pixel
+ * to the other (see {@link losVectors}). To build a dataset from an interferogram, see
+ * {@link quadtreeDownsample} and {@link insarDataset}.
+ * @category Datasets
+ */
+export class InsarDataset implements Dataset {
+    /**
+     * @brief Create a dataset with the same LOS for all the pixels
+     * @param position The position of the pixels
+     * @param data The LOS displacements, one per pixel
+     * @param los The LOS unit vector (from the ground to the satellite), used for all the pixels
+     * @param sigma The uncertainties, either one for all or one per pixel (default 1)
+     */
+    constructor(position: FlatVectors, data: Vectord, los: Vector, sigma?: number | Vectord)
+
+    /**
+     * @brief Create a dataset with one LOS per pixel (see {@link losVectors})
+     * @param los The LOS unit vectors as a flat array of size `3*n`, `n` being the number of pixels.
+     * An array of size 3 is used for all the pixels, as for the constructor above, which is
+     * the same when there is only one pixel
+     */
+    constructor(position: FlatVectors, data: Vectord, los: FlatVectors, sigma?: number | Vectord)
+
+    /**
+     * @brief Set the full data covariance matrix (n x n, row major). When provided, it
+     * replaces the uncertainties for the weighted misfit.
+     */
+    setCovariance(covariance: Vectord): void
+
+    /**
+     * @brief Estimate an orbital ramp jointly with the inversion. The ramp is then
+     * included in the predicted values.
+     * @default 'none'
+     */
+    setRamp(type: RampType | 'none'): void
+
+    /**
+     * @brief The ramp estimated by the last inversion (undefined if no ramp was requested)
+     */
+    ramp(): Ramp
+
+    name(): string
+    setName(name: string): void
+    weight(): number
+    setWeight(w: number): void
+    size(): number
+    position(): FlatVectors
+    data(): Vectord
+    sigma(): Vectord
+    predict(solution: Solution): Vectord
+    misfit(solution: Solution): MisfitReport
+}
+
+/**
+ * Tilts measured by tiltmeters, i.e., the derivatives of the vertical displacement
+ * along x and y (`[tx, ty]` per instrument)
+ * @category Datasets
+ */
+export class TiltmeterDataset implements Dataset {
+    /**
+     * @param position The position of the instruments
+     * @param data The tilts (in radians), two values per instrument
+     * @param sigma The uncertainties, either one for all or one per value (default 1)
+     */
+    constructor(position: FlatVectors, data: Vectord, sigma?: number | Vectord)
+
+    name(): string
+    setName(name: string): void
+    weight(): number
+    setWeight(w: number): void
+    size(): number
+    position(): FlatVectors
+    data(): Vectord
+    sigma(): Vectord
+    predict(solution: Solution): Vectord
+    misfit(solution: Solution): MisfitReport
+}
+
+/**
+ * Strains measured by strainmeters (borehole or laser)
+ * @category Datasets
+ */
+export class StrainmeterDataset implements Dataset {
+    /**
+     * @param position The position of the instruments
+     * @param data The strains, one {@link Tensor} per instrument. Only the valid components
+     * are used.
+     * @param valid The validity of each component `[xx, xy, xz, yy, yz, zz]` (default all valid)
+     * @param sigma The uncertainties, either one for all or one per valid component (default 1)
+     */
+    constructor(position: FlatVectors, data: FlatTensors, valid?: [boolean, boolean, boolean, boolean, boolean, boolean], sigma?: number | Vectord)
+
+    name(): string
+    setName(name: string): void
+    weight(): number
+    setWeight(w: number): void
+    size(): number
+    position(): FlatVectors
+    data(): Vectord
+    sigma(): Vectord
+    predict(solution: Solution): Vectord
+    misfit(solution: Solution): MisfitReport
+}
+
+/**
+ * Vertical displacements measured by leveling, relative to a reference benchmark
+ * @category Datasets
+ */
+export class LevelingDataset implements Dataset {
+    /**
+     * @param position The position of the benchmarks
+     * @param data The vertical displacements relative to the reference, one per benchmark
+     * @param reference The index of the reference benchmark
+     * @param sigma The uncertainties, either one for all or one per benchmark (default 1)
+     */
+    constructor(position: FlatVectors, data: Vectord, reference: number, sigma?: number | Vectord)
+
+    name(): string
+    setName(name: string): void
+    weight(): number
+    setWeight(w: number): void
+    size(): number
+    position(): FlatVectors
+    data(): Vectord
+    sigma(): Vectord
+    predict(solution: Solution): Vectord
+    misfit(solution: Solution): MisfitReport
+}
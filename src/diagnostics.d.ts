@@ -0,0 +1,156 @@
+import { Model } from './model'
+import { Surface } from './surface'
+import { SpatialIndex } from './spatialIndex'
+
+/**
+ * The kind of problem detected by {@link diagnoseSurface} and {@link diagnoseModel}
+ * - `degenerate`: triangle with a (quasi) null area
+ * - `sliver`: triangle with a very small angle (bad aspect ratio)
+ * - `small-dihedral`: two neighbor triangles making a small angle between them
+ * - `self-intersection`: two triangles of the same surface intersect
+ * - `cross-intersection`: two triangles of different surfaces intersect
+ * - `non-manifold-edge`: an edge shared by more than two triangles
+ * - `inconsistent-normal`: two neighbor triangles with opposite orientations
+ * - `duplicate-vertex`: two vertices at the same position which are not merged
+ * - `above-ground`: triangle crossing or above z=0 while the model is in half-space
+ * @category Diagnostics
+ */
+export type DiagnosticKind =
+    'degenerate' |
+    'sliver' |
+    'small-dihedral' |
+    'self-intersection' |
+    'cross-intersection' |
+    'non-manifold-edge' |
+    'inconsistent-normal' |
+    'duplicate-vertex' |
+    'above-ground'
+
+/**
+ * The severity of a {@link DiagnosticIssue}. An `error` will most likely make the
+ * `seidel` and `jacobi` solvers diverge (see {@link Important}), a `warning` may lower the
+ * accuracy of the solution.
+ * @category Diagnostics
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * A problem detected on a surface
+ * @category Diagnostics
+ */
+export interface DiagnosticIssue {
+    kind: DiagnosticKind
+
+    severity: DiagnosticSeverity
+
+    /**
+     * @brief The index of the surface in the model (0 for {@link diagnoseSurface})
+     */
+    surface: number
+
+    /**
+     * @brief The indices of the involved triangles (or vertices for `duplicate-vertex`)
+     */
+    indices: Array<number>
+
+    /**
+     * @brief For a `cross-intersection`, the index of the other surface
+     */
+    otherSurface?: number
+
+    /**
+     * @brief The measured value, if any (e.g., the angle in degrees for `sliver` and
+     * `small-dihedral`, the area for `degenerate`)
+     */
+    value?: number
+
+    /**
+     * @brief A human readable description of the issue
+     */
+    message: string
+}
+
+/**
+ * The result of {@link diagnoseSurface} and {@link diagnoseModel}
+ * @category Diagnostics
+ */
+export interface DiagnosticReport {
+    /**
+     * @brief True if no issue has the severity `error`
+     */
+    valid: boolean
+
+    issues: Array<DiagnosticIssue>
+}
+
+/**
+ * Options for {@link diagnoseSurface} and {@link diagnoseModel}
+ * @category Diagnostics
+ */
+export interface DiagnosticOptions {
+    /**
+     * @brief Below this smallest angle (in degrees), a triangle is a sliver
+     * @default 5
+     */
+    sliverAngle?: number
+
+    /**
+     * @brief Below this angle (in degrees) between two neighbor triangles, a `small-dihedral`
+     * issue is reported
+     * @default 10
+     */
+    dihedralAngle?: number
+
+    /**
+     * @brief Relative tolerance (according to the size of the model) used for degenerated
+     * triangles and duplicated vertices
+     * @default 1e-9
+     */
+    tolerance?: number
+
+    /**
+     * @brief Check for intersections, which is the most time consuming check
+     * @default true
+     */
+    intersections?: boolean
+
+    /**
+     * @brief An existing index over the same surfaces, used to speed up the intersection and
+     * proximity checks. If not provided, a temporary one is built.
+     */
+    index?: SpatialIndex
+}
+
+/**
+ * @brief Check the mesh quality of a {@link Surface} before solving
+ * @example
+ * ```js
+ * const report = arch.diagnoseSurface(surface, { sliverAngle: 10 })
+ * report.issues
+ *     .filter( issue => issue.kind === 'sliver' )
+ *     .forEach( issue => console.log(issue.message, issue.indices) )
+ * ```
+ * @category Diagnostics
+ */
+export function diagnoseSurface(surface: Surface, options?: DiagnosticOptions): DiagnosticReport
+
+/**
+ * @brief Check the mesh quality of all the surfaces of a {@link Model}, including the
+ * intersections between surfaces and, if the model is in half-space (see {@link Model.setHalfSpace}),
+ * the triangles crossing z=0.
+ * @example
+ * ```js
+ * const report = arch.diagnoseModel(model)
+ * if (!report.valid) {
+ *     report.issues
+ *         .filter( issue => issue.severity === 'error' )
+ *         .forEach( issue => console.error(`surface ${issue.surface}: ${issue.message}`) )
+ *     process.exit(1)
+ * }
+ *
+ * const solver = new arch.Forward(model)
+ * solver.run()
+ * ```
+ * @category Diagnostics
+ */
+export function diagnoseModel(model: Model, options?: DiagnosticOptions): DiagnosticReport
@@ -4,15 +4,14 @@
  * ---
  * ```ts
  * const arch = require('arch')
- * const io   = require('@youwol/io')
  *
  * const model = new arch.Model()
  * model.setHalfSpace( false )
  * model.setMaterial ( 0.25, 1, 1000 )
  * 
- * const surfaces = io.decodeGocadTS( fs.readFileSync('surfaces.ts', 'utf8') )
+ * const surfaces = arch.decodeGocadTS( fs.readFileSync('surfaces.ts', 'utf8') )
  * surfaces.forEach( surf => {
- *     const surface = new arch.Surface(surf.series.positions.array, surf.series.indices.array)
+ *     const surface = surf.surface
  *     surface.setBC("dip",    "free", 0)
  *     surface.setBC("strike", "free", 0)
  *     surface.setBC("normal", "free", (x,y,z) => alpha[4]*9.81*Math.abs(z) + alpha[5] )
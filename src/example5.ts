@@ -52,5 +52,20 @@
  * 
  * fs.writeFile('deformed-grid.gcd', io.encodeGocadTS(grid), 'utf8', err => {})
  * ```
+ *
+ * The same can be done using a {@link Simulation}, which accumulates the deformation and
+ * keeps the history of each step:
+ *
+ * ```js
+ * const sim = new arch.Simulation(model)
+ * sim.setLoadPath([{
+ *     remotes: [new arch.UserRemote( (x,y,z) => [0,0,0,0,0, -1000] )],
+ *     nbSubSteps: 10
+ * }])
+ * sim.setObservations(grid.series.positions.array)
+ * sim.setSolver('seidel', 1e-8, 200)
+ *
+ * const points = sim.run().cumulated().position
+ * ```
 */
 export namespace Example_incremental_remote {}
@@ -0,0 +1,70 @@
+/**
+ * Example showing how to use typed arrays to avoid copying and boxing the values between
+ * JavaScript and **Arch** (native or wasm) for large data sets.
+ *
+ * All the methods accepting a {@link FlatVectors} also accept a `Float64Array` (see {@link NumericArray}),
+ * and indices can be given as a `Uint32Array` (see {@link IndexArray}). The fields at observation points
+ * are then written in a caller-provided buffer, returned as a view into the library memory, or streamed
+ * chunk by chunk (see {@link FieldOptions} and {@link Solution.forEachChunk}).
+ *
+ * ## Building surfaces and computing on a large grid
+ *
+ * ```js
+ * const arch = require('arch.node')
+ * const fs   = require('fs')
+ *
+ * const model = new arch.Model()
+ * model.setMaterial( 0.25, 30e9, 2000 )
+ *
+ * // e.g., binary files of a large mesh
+ * const position = new Float64Array( fs.readFileSync('vertices.bin').buffer )
+ * const index    = new Uint32Array ( fs.readFileSync('triangles.bin').buffer )
+ *
+ * const fault = new arch.Surface(position, index) // no copy
+ * fault.setBC("dip",    "free", 0)
+ * fault.setBC("strike", "free", 0)
+ * fault.setBC("normal", "free", 1e6)
+ * model.addSurface( fault )
+ *
+ * const solver = new arch.Forward(model, 'seidel', 1e-8, 200)
+ * solver.run()
+ * const solution = new arch.Solution(model)
+ *
+ * // A grid of 1e6 observation points
+ * const n    = 1000000
+ * const grid = new Float64Array(3*n)
+ * // ... fill the grid
+ *
+ * // 1) Caller-provided buffer, reused for the next calls
+ * const stress = new Float64Array(6*n)
+ * solution.stress(grid, { out: stress })
+ *
+ * // 2) Allocation-free iteration over the buffer
+ * let maxShear = 0
+ * new arch.TensorIt(stress).forEach( s => maxShear = Math.max(maxShear, Math.abs(s[1])), true )
+ *
+ * // 3) Streaming to a file, without storing the whole result
+ * const fd = fs.openSync('displ.bin', 'w')
+ * solution.forEachChunk('displ', grid, (values, first, count) => {
+ *     fs.writeSync(fd, values.subarray(0, 3*count))
+ * }, 100000)
+ * fs.closeSync(fd)
+ * ```
+ *
+ * ## Measuring the speed-up
+ *
+ * The function {@link runDataPathBenchmark} compares the plain array path with the typed ones, on the
+ * backend which is loaded, and checks that all the paths give the same results:
+ *
+ * ```js
+ * const { runDataPathBenchmark } = require('@youwol/arch-doc')
+ *
+ * loadArch().then( arch => {
+ *     const report = runDataPathBenchmark(arch, { nbPoints: 1e6, fields: ['stress'] })
+ *     console.table( report.results.map( r => ({ path: r.path, ms: r.time, speedup: r.speedup.toFixed(1) }) ) )
+ * })
+ * ```
+ * The speed-up mostly comes from the transfer of the points and of the results, so it is larger for
+ * the cheap fields (displacement) and for the `wasm` backend.
+ */
+export namespace Example_typed_arrays {}
@@ -0,0 +1,141 @@
+import { Model } from './model'
+import { Surface } from './surface'
+import { FlatVectors, Vectord } from './types'
+
+/**
+ * A closed loop of boundary edges of a {@link Surface}, i.e., a tip-line of a fracture
+ * (or a part of it). Edges are oriented so that the surface is on the left when looking
+ * along the normal.
+ * @category Fracture
+ */
+export interface TipLine {
+    /**
+     * @brief The ordered vertex indices of the loop (the last vertex is connected to the first one)
+     */
+    vertices: Vectord
+
+    /**
+     * @brief For each edge `[vertices[i], vertices[i+1]]`, the index of the triangle it belongs to
+     */
+    triangles: Vectord
+
+    /**
+     * @brief True if the loop is the outer boundary of the surface, false for a hole
+     */
+    outer: boolean
+}
+
+/**
+ * The stress intensity factors and the propagation criterion along a {@link TipLine},
+ * one value per edge (tip segment)
+ * @category Fracture
+ */
+export interface TipLineSIF {
+    tipLine: TipLine
+
+    /**
+     * @brief The middle of each tip segment
+     */
+    position: FlatVectors
+
+    /**
+     * @brief The unit vector of each segment pointing outward of the surface, in the plane of
+     * the triangle
+     */
+    outward: FlatVectors
+
+    /**
+     * @brief Mode I (opening)
+     */
+    KI: Vectord
+
+    /**
+     * @brief Mode II (sliding, perpendicular to the tip-line)
+     */
+    KII: Vectord
+
+    /**
+     * @brief Mode III (tearing, parallel to the tip-line)
+     */
+    KIII: Vectord
+
+    /**
+     * @brief The energy release rate `G = (1-ν²)/E.(KI² + KII²) + (1+ν)/E.KIII²`
+     */
+    G: Vectord
+
+    /**
+     * @brief The propagation angle in degrees, in the plane perpendicular to the tip-line and
+     * measured from the `outward` direction (positive toward the normal of the triangle)
+     */
+    angle: Vectord
+
+    /**
+     * @brief The propagation direction (unit vector) of each segment
+     */
+    direction: FlatVectors
+
+    /**
+     * @brief True if the segment propagates according to the criterion
+     */
+    propagate: Array<boolean>
+}
+
+/**
+ * Options for {@link stressIntensityFactors}
+ * @category Fracture
+ */
+export interface SIFOptions {
+    /**
+     * @brief The propagation criterion
+     * - `max-hoop`: maximum hoop (circumferential) stress ([Erdogan and Sih, 1963](https://asmedigitalcollection.asme.org/fluidsengineering/article-abstract/85/4/519/409716)),
+     * the segment propagates if the equivalent `K` is greater than `toughness`
+     * - `energy-release`: maximum energy release rate, the segment propagates if `G` is greater than `toughness²/E'`
+     * @default 'max-hoop'
+     */
+    criterion?: 'max-hoop' | 'energy-release'
+
+    /**
+     * @brief The fracture toughness `KIc`, one for all segments or one per vertex of the surface
+     * @default 0
+     */
+    toughness?: number | Vectord
+}
+
+/**
+ * @brief Extract the tip-lines of a {@link Surface}, i.e., the ordered loops of its boundary edges
+ * @example
+ * ```js
+ * const loops = arch.tipLines(surface)
+ * console.log(`${loops.length} tip-line(s), ${loops.filter( l => !l.outer ).length} hole(s)`)
+ * ```
+ * @category Fracture
+ */
+export function tipLines(surface: Surface): Array<TipLine>
+
+/**
+ * @brief Compute the stress intensity factors (SIF) KI, KII and KIII along the tip-lines of a
+ * solved {@link Surface}, from the displacement discontinuities of the triangles along the tip
+ * (see {@link Surface.displ} in local coordinate system and {@link Triangle.toLocal}), using the
+ * Young's modulus and the Poisson's ratio of the model.
+ *
+ * The SIF are computed with the displacement correlation technique:
+ * `K = E/(8(1-ν²)).sqrt(2π/r).Δu`, with `r` the distance from the triangle center to the tip
+ * (`E/(8(1+ν))` for KIII). The accuracy depends on the size of the triangles along the tip-line.
+ * @param model The model providing the material
+ * @param surface The solved surface
+ * @param options The propagation criterion and the toughness
+ * @returns One result per tip-line
+ * @example
+ * ```js
+ * solver.run()
+ *
+ * const sif = arch.stressIntensityFactors(model, dyke, { criterion: 'max-hoop', toughness: 1e6 })
+ * sif.forEach( t => {
+ *     const n = t.propagate.filter( p => p ).length
+ *     console.log(`${n}/${t.propagate.length} segments propagate`)
+ * })
+ * ```
+ * @category Fracture
+ */
+export function stressIntensityFactors(model: Model, surface: Surface, options?: SIFOptions): Array<TipLineSIF>
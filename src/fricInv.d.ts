@@ -1,43 +1,81 @@
-import { Model, UserRemote, Vectord } from ".";
+import { Model, Remote, Vectord, Coulomb, MisfitReport } from ".";
+
+/**
+ * The result of [[FrictionInversion.validate]]
+ *
+ * @category Solvers
+ */
+export interface FrictionValidation {
+    /**
+     * The burgers computed by [[Forward]] using the recovered [[Coulomb]] constraints,
+     * one entry per surface (local, at triangles)
+     */
+    burgers: Array<Vectord>
+
+    /**
+     * The misfit between the input burgers and the computed ones, one entry per surface
+     */
+    report: Array<MisfitReport>
+}
 
 /**
  * Allows to perform anisotopic friction and cohesion distribution inversion
  * using multiple type of dataset on complex fault geometries.
- * 
+ *
+ * The complete workflow is
+ * 1. get the burgers from the data, e.g., using [[SlipInversion]]
+ * 2. get the far field stress, e.g., using [[StressInversion]]
+ * 3. estimate the friction and cohesion per triangle
+ * 4. build the corresponding [[Coulomb]] constraints and check, by running [[Forward]], how well
+ * they reproduce the input burgers
+ *
  * @example
  * ```javascript
  * const model = new arch.Model()
  * // --> add surface discontinuities
  * // --> setup surface boundary conditions and values
- * 
+ *
+ * const slipinv = new arch.SlipInversion(model)
+ * slipinv.addDataset(gps)
+ * const burgers = slipinv.run(true, true)
+ *
  * const algo = new arch.FrictionInversion(model)
- * algo.setRemote( remoteFromStressInversion )
- * algo.setBurgers( displFromSlipInversion )
+ * algo.setRemote( stressInversionResult.remote )
+ * algo.setBurgers( burgers )
  * algo.run()
- * 
- * const friction = algo.getDipFriction()
+ *
+ * const friction    = algo.dipFriction()
+ * const cohesion    = algo.cohesion()
+ * const uncertainty = algo.frictionUncertainty()
+ *
+ * const validation = algo.validate()
+ * validation.report.forEach( r => console.log(`VR=${r.varianceReduction.toFixed(1)}%`) )
+ *
+ * // Use the recovered friction for a new forward model
+ * const constraints = algo.constraints()
  * ```
- * 
+ *
  * @category Solvers
  */
 export class FrictionInversion {
     constructor(model: Model)
 
     /**
-     * Set the displacement on triangular elements making the faults.
-     * These burgers come from, for example, [[SlipInversion]].
-     * @param burgers 
+     * Set the displacement on triangular elements making the faults (local, at triangles).
+     * These burgers come from, for example, [[SlipInversion.run]], with one entry per surface.
+     * A [[Vectord]] can be provided if the model has only one surface.
+     * @param burgers
      */
-    setBurgers(burgers: Vectord): void
+    setBurgers(burgers: Vectord | Array<Vectord>): void
 
     /**
      * Set the estimated far field stress.
      * This come from stress inversion using the same model and data as for
-     * [[SlipInversion]].
-     * @param remote 
+     * [[SlipInversion]] (see [[StressInversionResult.remote]]).
+     * @param remote
      * @see [[setBurgers]]
      */
-    setRemote(remote: UserRemote): void
+    setRemote(remote: Remote): void
 
     /**
      * If the algo have to perform the inversion along the dip and strike
@@ -47,6 +85,13 @@ export class FrictionInversion {
      */
     useAnisotropy(u: boolean): void
 
+    /**
+     * Also estimate the cohesion. Otherwise, the cohesion is zero.
+     * @param c True to estimate the cohesion
+     * @default true
+     */
+    useCohesion(c: boolean): void
+
     /**
      * For convenience, return the residual tractions from the imposed burger vectors
      */
@@ -73,4 +118,52 @@ export class FrictionInversion {
      * return the same array.
      */
     strikeFriction(): Vectord
+
+    /**
+     * Get the computed cohesion distribution
+     */
+    cohesion(): Vectord
+
+    /**
+     * Get the uncertainty (one standard deviation) of the friction for each triangle.
+     * Triangles which did not slip only give a lower bound of the friction, and their
+     * uncertainty is `Infinity`.
+     * If anisotropy was used, this is the uncertainty of the mean of the dip and strike
+     * friction used by [[constraints]] (see [[dipFrictionUncertainty]] and
+     * [[strikeFrictionUncertainty]]).
+     */
+    frictionUncertainty(): Vectord
+
+    /**
+     * Get the uncertainty of the friction along the dip axis (see [[frictionUncertainty]])
+     */
+    dipFrictionUncertainty(): Vectord
+
+    /**
+     * Get the uncertainty of the friction along the strike axis (see [[frictionUncertainty]]).
+     * If anisotropy was set to false, [[dipFrictionUncertainty]] and [[strikeFrictionUncertainty]]
+     * return the same array.
+     */
+    strikeFrictionUncertainty(): Vectord
+
+    /**
+     * Get the uncertainty (one standard deviation) of the cohesion for each triangle
+     */
+    cohesionUncertainty(): Vectord
+
+    /**
+     * Build the [[Coulomb]] constraints from the computed friction and cohesion, one per surface
+     * in the order of the model. If anisotropy was used, the mean of the dip and strike friction
+     * is used.
+     */
+    constraints(): Array<Coulomb>
+
+    /**
+     * Run [[Forward]] on a copy of the model using the [[constraints]] and the remote, and
+     * compare the computed burgers with the input ones.
+     * @param solver The solver name (see [[Forward.select]]). The [[Coulomb]] constraints
+     * apply with `seidel`, `jacobi` and `parallel`.
+     * @default 'seidel', as for [[Forward]]
+     */
+    validate(solver?: string): FrictionValidation
 }
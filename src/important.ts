@@ -1,11 +1,16 @@
 /**
  * - {@link Forward} is still a work in progress and some available solvers might not work as expected...
-- Constraints **only** apply with the solver `seidel` or `jacobi` in {@link Forward}
+- Constraints **only** apply with the solver `seidel` or `jacobi` in {@link Forward} (or `parallel` for
+  the declarative constraints, i.e., all but `UserDic` and `UserTic`)
 - `UserDic` and `UserTic` **only** works for **sequential** seidel/jacobi solver, not in parallel since we have to
   implement the *threaded callback* in nodejs
+  (use the declarative constraints such as {@link NoInterpenetration}, {@link TensileCutoff} or
+  {@link SlipWeakening} instead)
 - In some cases, the `seidel` and `jacobi` solvers may diverge. These cases are
   1. when triangles intersects (in some cases)
   2. when two close triangles make a small angle between them
+  
+  Use {@link diagnoseModel} to detect these cases before running the solver
 - {@link Remote} strain is not yet implemented
 */
 export namespace Important { }
\ No newline at end of file
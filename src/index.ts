@@ -1,21 +1,45 @@
 export * from './constraint'
 export * from './surface'
+export * from './fracture'
+export * from './refinement'
+export * from './source'
+export * from './spatialIndex'
 export * from './functions'
 
 export * from './influence'
+export * from './tde'
+export * from './reference'
+export * from './analytic'
+export * from './benchmark'
 
 export * from './interpolation'
 // export * from './materials'
 export * from './model'
+export * from './diagnostics'
+export * from './serialization'
+export * from './io'
+export * from './vtk'
+export * from './superposition'
+export * from './superpositionBasis'
 export * from './remote'
+export * from './remoteBuilders'
 
 export * from './solver'
+export * from './runner'
+export * from './simulation'
+export * from './dataset'
+export * from './insar'
 export * from './slipInv'
-// export * from './fricInv'
+export * from './stressInv'
+export * from './fricInv'
 export * from './solution'
 
 export * from './types'
+export * from './utils'
+export * from './stressAnalysis'
+export * from './coulombStress'
 export * from './triangle'
+export * from './loader'
 
 export * from './node-wasm'
 export * from './example_setup_env'
@@ -24,8 +48,10 @@ export * from './example2'
 export * from './example3'
 export * from './example4'
 export * from './example5'
+export * from './example6'
 export * from './convention'
 export * from './burgersFilter'
+export * from './conventionConverter'
 export * from './biblio'
 export * from './terminology'
 export * from './important'
\ No newline at end of file
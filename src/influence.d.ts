@@ -32,6 +32,9 @@ import { FullTensor } from "./types"
  * Usage of the influence tensors for either (i) heterogenity or (ii) slip inversion
  * </i></blockquote></center>
  * 
+ * A pure TypeScript implementation with the same methods, which does not require the library,
+ * is provided by {@link ReferenceInfluence}.
+ * 
  * @category Low-Level
  */
 export class Influence {
@@ -0,0 +1,224 @@
+import { Model } from './model'
+import { Solution } from './solution'
+import { InsarDataset } from './dataset'
+import { FlatVectors, Vector, Vectord } from './types'
+
+/**
+ * A regular grid of line of sight (LOS) displacements, i.e., an unwrapped interferogram.
+ * Values are stored row by row (x varying first), i.e., `data[i + j*nx]` is the value at
+ * `(origin[0] + i*spacing[0], origin[1] + j*spacing[1])`.
+ * @category InSAR
+ */
+export interface InsarGrid {
+    origin: [number, number]
+    spacing: [number, number]
+    nx: number
+    ny: number
+
+    /**
+     * @brief The elevation of the pixels, either one for all or one per pixel
+     * @default 0
+     */
+    z?: number | Vectord
+
+    /**
+     * @brief The LOS displacements, one per pixel. Pixels without data are `NaN`.
+     */
+    data: Vectord
+
+    /**
+     * @brief The incidence angle in degrees (from the vertical), either one for all or one per pixel
+     */
+    incidence: number | Vectord
+
+    /**
+     * @brief The heading of the satellite in degrees (from the North, clock-wise), either one
+     * for all or one per pixel
+     */
+    heading: number | Vectord
+}
+
+/**
+ * The reduced point set obtained by {@link quadtreeDownsample} or {@link resolutionDownsample}
+ * @category InSAR
+ */
+export interface InsarSamples {
+    /**
+     * @brief The position of each sample (center of the cell)
+     */
+    position: FlatVectors
+
+    /**
+     * @brief The mean LOS displacement of each sample
+     */
+    data: Vectord
+
+    /**
+     * @brief The LOS unit vector (from the ground to the satellite) of each sample
+     */
+    los: FlatVectors
+
+    /**
+     * @brief The uncertainty (standard deviation) of each sample
+     */
+    sigma: Vectord
+
+    /**
+     * @brief The full data covariance matrix (n x n, row major), computed from the covariance
+     * model given in the options
+     */
+    covariance: Vectord
+
+    /**
+     * @brief The extent `[xmin, ymin, xmax, ymax]` of the cell of each sample
+     */
+    cells: Vectord
+
+    /**
+     * @brief The number of valid pixels in the cell of each sample
+     */
+    count: Vectord
+}
+
+/**
+ * An exponential covariance model `C(d) = sill.exp(-d/range)` for the noise of an
+ * interferogram, with `d` the distance between two points
+ * @category InSAR
+ */
+export interface CovarianceModel {
+    sill: number
+    range: number
+}
+
+/**
+ * A linear (`a + b.x + c.y`) or quadratic (`a + b.x + c.y + d.x^2 + e.xy + f.y^2`) orbital ramp
+ * @category InSAR
+ */
+export type RampType = 'linear' | 'quadratic'
+
+/**
+ * An estimated orbital ramp
+ * @category InSAR
+ */
+export interface Ramp {
+    type: RampType
+
+    /**
+     * @brief The coefficients `[a, b, c]` (linear) or `[a, b, c, d, e, f]` (quadratic)
+     */
+    coefficients: Vectord
+
+    /**
+     * @brief Evaluate the ramp at given positions
+     */
+    evaluate(position: FlatVectors): Vectord
+}
+
+/**
+ * @brief Compute the LOS unit vector (from the ground to the satellite) given the incidence
+ * and heading angles in degrees
+ * @category InSAR
+ */
+export function losVectors(incidence: number, heading: number): Vector
+
+/**
+ * @brief Compute the LOS unit vectors (from the ground to the satellite) given the incidence
+ * and heading angles in degrees, one per pixel
+ * @returns A flat array of vectors, one per angle
+ * @category InSAR
+ */
+export function losVectors(incidence: Vectord, heading: Vectord): FlatVectors
+
+/**
+ * @brief Reduce an interferogram using a quadtree. A cell is split until the variance of its
+ * values is below `threshold` or its size reaches `minSize` (in pixels).
+ * @param grid The interferogram
+ * @param options
+ * - `threshold`: the variance below which a cell is not split
+ * - `minSize` and `maxSize`: the minimum and maximum size of a cell in pixels (default 1 and 256)
+ * - `minValid`: the minimum ratio of valid pixels in a cell to keep it (default 0.5)
+ * - `covariance`: the noise covariance model (default: no correlation, unit sill)
+ * @example
+ * ```js
+ * const samples = arch.quadtreeDownsample(grid, {
+ *     threshold : 1e-4,
+ *     covariance: { sill: 2e-5, range: 5000 }
+ * })
+ * console.log(`${grid.data.length} pixels -> ${samples.data.length} samples`)
+ * ```
+ * @category InSAR
+ */
+export function quadtreeDownsample(grid: InsarGrid, options: {
+    threshold: number,
+    minSize?: number,
+    maxSize?: number,
+    minValid?: number,
+    covariance?: CovarianceModel
+}): InsarSamples
+
+/**
+ * @brief Reduce an interferogram according to the resolution of a model, i.e., with smaller
+ * cells where the data are sensitive to the slip on the surfaces and larger ones elsewhere
+ * (see [Lohman and Simons, 2005](https://agupubs.onlinelibrary.wiley.com/doi/10.1029/2004GC000841)).
+ * @param grid The interferogram
+ * @param model The model used for the inversion
+ * @param options
+ * - `maxSamples`: the maximum number of samples (default 1000)
+ * - `minSize` and `maxSize`: the minimum and maximum size of a cell in pixels (default 1 and 256)
+ * - `covariance`: the noise covariance model (default: no correlation, unit sill)
+ * @category InSAR
+ */
+export function resolutionDownsample(grid: InsarGrid, model: Model, options?: {
+    maxSamples?: number,
+    minSize?: number,
+    maxSize?: number,
+    covariance?: CovarianceModel
+}): InsarSamples
+
+/**
+ * @brief Estimate an orbital ramp by least squares. To estimate the ramp jointly with the slip,
+ * use {@link InsarDataset.setRamp} instead.
+ * @category InSAR
+ */
+export function estimateRamp(samples: InsarSamples, type: RampType): Ramp
+
+/**
+ * @brief Remove a ramp from the samples
+ * @returns New samples with the corrected data
+ * @category InSAR
+ */
+export function removeRamp(samples: InsarSamples, ramp: Ramp): InsarSamples
+
+/**
+ * @brief Create an {@link InsarDataset} from samples, using the per-sample LOS and the covariance
+ * @category InSAR
+ */
+export function insarDataset(samples: InsarSamples): InsarDataset
+
+/**
+ * @brief Generate a synthetic interferogram by projecting the displacement of a forward
+ * model (see {@link Solution.displ}) along the LOS of each pixel. Useful to run resolution
+ * tests.
+ * @param solution The forward solution
+ * @param grid The geometry of the interferogram (`data` is ignored)
+ * @param options
+ * - `noise`: correlated gaussian noise to add, using a covariance model and an optional seed
+ * - `ramp`: an orbital ramp to add
+ * @returns A copy of the grid with the synthetic data
+ * @example
+ * ```js
+ * solver.run()
+ * const synth = arch.syntheticInterferogram(new arch.Solution(model), grid, {
+ *     noise: { sill: 1e-5, range: 3000, seed: 42 }
+ * })
+ *
+ * const samples = arch.quadtreeDownsample(synth, { threshold: 1e-4 })
+ * const inv = new arch.SlipInversion(model)
+ * inv.addDataset( arch.insarDataset(samples) )
+ * ```
+ * @category InSAR
+ */
+export function syntheticInterferogram(solution: Solution, grid: InsarGrid, options?: {
+    noise?: CovarianceModel & { seed?: number },
+    ramp?: Ramp
+}): InsarGrid
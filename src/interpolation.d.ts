@@ -1,5 +1,6 @@
 import { Vectord } from './types'
 import { Surface } from './surface'
+import { AttributeTransfer, RefinedSurface } from './refinement'
 
 /*
  * Allow to interpolate an attribute defined for a [[Surface]] from vertices to triangles,
@@ -61,4 +62,22 @@ export class SurfaceAttributeInterpolation {
      * of vertices for the surface
      */
     fromTrianglesToVertices(attribute: Vectord): Vectord
+
+    /**
+     * Transfer an attribute defined at the triangles of the surface to the triangles of a
+     * refined version of the surface (see [[refineSurface]]), e.g., for a user attribute which is not
+     * carried by the refinement.
+     * @param attribute The attribute to transfer, `itemSize` values per triangle
+     * @param refined The result of [[refineSurface]] for this surface
+     * @param itemSize The number of values per triangle (1 for scalar, 3 for vector3, 9 for matrix33)
+     * @param transfer The way to transfer the values (default `linear`)
+     * @returns The attribute for the triangles of `refined.surface`
+     * @example
+     * ```ts
+     * const I = new arch.SurfaceAttributeInterpolation(fault)
+     * const refined = arch.refineSurface(fault, { criteria })
+     * const pore = I.toRefined(porePressure, refined, 1)
+     * ```
+     */
+    toRefined(attribute: Vectord, refined: RefinedSurface, itemSize: number, transfer?: AttributeTransfer): Vectord
 }
@@ -0,0 +1,229 @@
+import { Surface } from './surface'
+import { Solution, SolutionField } from './solution'
+import { FlatVectors, Vectord } from './types'
+
+/**
+ * A named property attached to a {@link GeometryObject}, either per vertex or per triangle.
+ * @category IO
+ */
+export interface Attribute {
+    /**
+     * @brief The values as a flat array
+     */
+    array: Vectord
+
+    /**
+     * @brief The number of components per item (1 for a scalar, 3 for a {@link Vector},
+     * 6 for a {@link Tensor})
+     */
+    itemSize: number
+
+    /**
+     * @brief Where the values are defined
+     */
+    location: 'vertices' | 'triangles'
+}
+
+/**
+ * A triangulated surface or a set of points (when `index` is not provided) with
+ * named attributes, as read from or written to a file.
+ * @category IO
+ */
+export interface GeometryObject {
+    name?: string
+
+    /**
+     * @brief The vertices coordinates in flat array
+     */
+    position: FlatVectors
+
+    /**
+     * @brief The triangles indices in flat array (not provided for a set of points)
+     */
+    index?: Vectord
+
+    attributes: { [name: string]: Attribute }
+}
+
+/**
+ * Map an attribute of a file onto the boundary condition of one axis (see {@link Surface.setBC}).
+ * If the attribute is defined at vertices, it is interpolated at triangles using
+ * {@link SurfaceAttributeInterpolation}.
+ * @category IO
+ */
+export interface BCMapping {
+    type: 'free' | 'locked'
+
+    /**
+     * @brief The name of the scalar attribute in the file
+     */
+    attribute: string
+}
+
+/**
+ * Options for the decoders ({@link decodeGocadTS}, {@link decodeOBJ}, {@link decodePLY} and {@link decodeSTL})
+ * @category IO
+ */
+export interface DecodeOptions {
+    /**
+     * @brief Attributes to use as boundary conditions. Axis which are not provided keep the
+     * default boundary conditions of {@link Surface}.
+     * @example
+     * ```javascript
+     * const surfaces = arch.decodeGocadTS(buffer, {
+     *     bc: {
+     *         normal: { type: 'free', attribute: 'pressure' }
+     *     }
+     * })
+     * ```
+     */
+    bc?: {
+        normal?: BCMapping,
+        strike?: BCMapping,
+        dip   ?: BCMapping
+    }
+}
+
+/**
+ * A {@link Surface} created by a decoder, with the other attributes found in the file
+ * @category IO
+ */
+export interface DecodedSurface {
+    name: string
+    surface: Surface
+    attributes: { [name: string]: Attribute }
+}
+
+/**
+ * @brief Decode a Gocad TSurf buffer. Each object of the file gives a {@link Surface}.
+ * @example
+ * ```js
+ * const fs   = require('fs')
+ * const arch = require('arch.node')
+ *
+ * const model = new arch.Model()
+ * arch.decodeGocadTS( fs.readFileSync('faults.ts', 'utf8') ).forEach( s => {
+ *     s.surface.setBC("dip"   , "free", 0)
+ *     s.surface.setBC("strike", "free", 0)
+ *     model.addSurface(s.surface)
+ * })
+ * ```
+ * @category IO
+ */
+export function decodeGocadTS(buffer: string, options?: DecodeOptions): Array<DecodedSurface>
+
+/**
+ * @brief Decode a Wavefront OBJ buffer. Each object (`o`) or group (`g`) gives a {@link Surface}.
+ * @category IO
+ */
+export function decodeOBJ(buffer: string, options?: DecodeOptions): Array<DecodedSurface>
+
+/**
+ * @brief Decode an ascii or binary PLY buffer. Vertex and face properties are returned as attributes.
+ * @category IO
+ */
+export function decodePLY(buffer: string | ArrayBuffer, options?: DecodeOptions): Array<DecodedSurface>
+
+/**
+ * @brief Decode an ascii or binary STL buffer. Duplicated vertices are merged.
+ * @category IO
+ */
+export function decodeSTL(buffer: string | ArrayBuffer): Array<DecodedSurface>
+
+/**
+ * @brief Encode objects in Gocad TSurf format. Objects without `index` are written as
+ * point sets (`VSet`). Attributes at triangles are interpolated at vertices
+ * since TSurf only supports attributes at vertices.
+ * @category IO
+ */
+export function encodeGocadTS(objects: Array<GeometryObject>): string
+
+/**
+ * @brief Encode objects in Wavefront OBJ format. Attributes are not written.
+ * @category IO
+ */
+export function encodeOBJ(objects: Array<GeometryObject>): string
+
+/**
+ * @brief Encode objects in ascii PLY format, with attributes as vertex or face properties
+ * @category IO
+ */
+export function encodePLY(objects: Array<GeometryObject>, binary?: false): string
+
+/**
+ * @brief Encode objects in binary (little endian) PLY format, with attributes as vertex or
+ * face properties
+ * @category IO
+ */
+export function encodePLY(objects: Array<GeometryObject>, binary: true): ArrayBuffer
+
+/**
+ * @brief Encode objects in ascii STL format. Attributes are not written.
+ * @category IO
+ */
+export function encodeSTL(objects: Array<GeometryObject>, binary?: false): string
+
+/**
+ * @brief Encode objects in binary STL format. Attributes are not written.
+ * @category IO
+ */
+export function encodeSTL(objects: Array<GeometryObject>, binary: true): ArrayBuffer
+
+/**
+ * The results that can be attached to a {@link Surface} by {@link surfaceToObject}.
+ * - `burgers`: {@link Surface.displ} in global coordinate system
+ * - `localBurgers`: {@link Surface.displ} in local coordinate system
+ * - `displPlus` and `displMinus`: {@link Surface.displPlus} and {@link Surface.displMinus}
+ * - `residualTractions`: {@link Solution.residualTractions} (requires a solution)
+ * @category IO
+ */
+export type SurfaceField = 'burgers' | 'localBurgers' | 'displPlus' | 'displMinus' | 'residualTractions'
+
+/**
+ * @brief Get a {@link Surface} with its results as a {@link GeometryObject}, ready to be encoded
+ * @param surface The surface
+ * @param options
+ * - `fields`: the results to attach, named as the field (default `['burgers']`)
+ * - `atTriangles`: attach the results at triangles or at vertices (default `false`)
+ * - `solution` and `surfaceIndex`: required for `residualTractions`, where `surfaceIndex` is the
+ * index of the surface in the model
+ * @example
+ * ```js
+ * solver.run()
+ * const solution = new arch.Solution(model)
+ *
+ * const obj = arch.surfaceToObject(fault, {
+ *     fields: ['burgers', 'residualTractions'],
+ *     solution,
+ *     surfaceIndex: 0
+ * })
+ * fs.writeFileSync('fault.ts', arch.encodeGocadTS([obj]), 'utf8')
+ * ```
+ * @category IO
+ */
+export function surfaceToObject(surface: Surface, options?: {
+    name?: string,
+    fields?: Array<SurfaceField>,
+    atTriangles?: boolean,
+    solution?: Solution,
+    surfaceIndex?: number
+}): GeometryObject
+
+/**
+ * @brief Get observation points (or an observation grid if `index` is provided) with
+ * the results of a {@link Solution} as a {@link GeometryObject}, ready to be encoded
+ * @example
+ * ```js
+ * const grid = arch.pointsToObject(solution, positions, {
+ *     index : triangles,
+ *     fields: ['displ', 'stress']
+ * })
+ * fs.writeFileSync('grid.ts', arch.encodeGocadTS([grid]), 'utf8')
+ * ```
+ * @category IO
+ */
+export function pointsToObject(solution: Solution, position: FlatVectors, options?: {
+    name?: string,
+    index?: Vectord,
+    fields?: Array<SolutionField>
+}): GeometryObject
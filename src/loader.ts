@@ -0,0 +1,271 @@
+import { Model } from './model'
+import { Surface } from './surface'
+import { Triangle } from './triangle'
+import { Forward } from './solver'
+import { Solution } from './solution'
+import { SlipInversion } from './slipInv'
+import { Influence } from './influence'
+import { SurfaceAttributeInterpolation } from './interpolation'
+import { UserRemote, AndersonianRemote } from './remote'
+import { Coulomb, UserTic, UserDic } from './constraint'
+import { VectorIt, TensorIt } from './utils'
+import { BurgerFilter } from './burgersFilter'
+
+/**
+ * The backend used to run **Arch**. `native` is the library compiled for node.js
+ * (`arch.node`) and `wasm` is the library compiled in WebAssembly.
+ * @see {@link Node_vs_WASM}
+ * @category Loading
+ */
+export type ArchBackend = 'native' | 'wasm'
+
+/**
+ * What the loaded backend is able to do. Use it instead of guessing if
+ * {@link Forward.setNbCores} or the `parallel` solver will be ignored.
+ * @example
+ * ```javascript
+ * const arch = await loadArch()
+ * const caps = arch.capabilities()
+ *
+ * const solver = new arch.Forward(model)
+ * if (caps.multithreaded) {
+ *     solver.select('parallel')
+ *     solver.setNbCores(caps.maxCores)
+ * }
+ * ```
+ * @category Loading
+ */
+export interface ArchCapabilities {
+    /**
+     * @brief The backend which was loaded
+     */
+    backend: ArchBackend
+
+    /**
+     * @brief True if the library was compiled with thread support. If false,
+     * {@link Forward.setNbCores} and {@link Solution.setNbCores} are irrelevant
+     */
+    multithreaded: boolean
+
+    /**
+     * @brief The maximum number of threads usable by the solvers (1 if not multithreaded)
+     */
+    maxCores: number
+
+    /**
+     * @brief The solver names accepted by {@link Forward.select} for this backend,
+     * e.g., `['seidel', 'jacobi', 'gmres', 'cgns', 'parallel']`
+     */
+    solvers: Array<string>
+
+    /**
+     * @brief The version of the loaded library
+     */
+    version: string
+}
+
+/**
+ * The loaded **Arch** library, whatever the backend (node.js or WebAssembly).
+ * @category Loading
+ */
+export interface ArchModule {
+    Model: typeof Model
+    Surface: typeof Surface
+    Triangle: typeof Triangle
+    Forward: typeof Forward
+    Solution: typeof Solution
+    SlipInversion: typeof SlipInversion
+    Influence: typeof Influence
+    SurfaceAttributeInterpolation: typeof SurfaceAttributeInterpolation
+    UserRemote: typeof UserRemote
+    AndersonianRemote: typeof AndersonianRemote
+    Coulomb: typeof Coulomb
+    UserTic: typeof UserTic
+    UserDic: typeof UserDic
+    VectorIt: typeof VectorIt
+    TensorIt: typeof TensorIt
+    BurgerFilter: typeof BurgerFilter
+
+    /**
+     * @brief Get the remaining months for the library before to be obsolete
+     * @see {@link license}
+     */
+    license(): number
+
+    /**
+     * @brief Get the capabilities of the loaded backend. For a library which does not provide
+     * them, {@link loadArch} deduces them from the backend and the environment, and returns
+     * an object inheriting from the loaded module with this method added
+     */
+    capabilities(): ArchCapabilities
+}
+
+/**
+ * Options for {@link loadArch}
+ * @category Loading
+ */
+export interface LoadArchOptions {
+    /**
+     * @brief The backend to load. With `auto`, the `native` backend is used
+     * when running in node.js and if the native library can be found, otherwise the
+     * `wasm` backend is used.
+     * @default 'auto'
+     */
+    backend?: ArchBackend | 'auto'
+
+    /**
+     * @brief The path of the native library (node.js only)
+     * @default 'arch.node'
+     */
+    nativePath?: string
+
+    /**
+     * @brief The path or url of the WebAssembly module (the `.js` file generated with its
+     * associated `.wasm` file)
+     * @default 'arch'
+     */
+    wasmPath?: string
+
+    /**
+     * @brief Below this number of remaining months (see {@link license}), the
+     * loading is refused and the promise is rejected
+     * @default 0
+     */
+    minLicenseMonths?: number
+
+    /**
+     * @brief Below this number of remaining months, {@link onLicenseWarning} is called
+     * (or a warning is displayed in the console if not provided)
+     * @default 2
+     */
+    warnLicenseMonths?: number
+
+    /**
+     * @brief Called when the remaining months of the license are low
+     * @param months The remaining number of months
+     */
+    onLicenseWarning?: (months: number) => void
+}
+
+/**
+ * @brief Load the **Arch** library, hiding the difference between the node.js and
+ * the WebAssembly versions (see {@link Node_vs_WASM}). The library is always returned
+ * asynchronously, whatever the backend.
+ *
+ * The returned promise is rejected if the library cannot be found, or if the remaining
+ * months of the {@link license} are less than `options.minLicenseMonths`.
+ * @param options The loading options
+ * @returns A promise of the loaded library
+ * @example
+ * ```javascript
+ * const { loadArch } = require('@youwol/arch-doc')
+ *
+ * loadArch({ warnLicenseMonths: 3 }).then( arch => {
+ *     const caps = arch.capabilities()
+ *     console.log(`Using ${caps.backend} backend, solvers: ${caps.solvers}`)
+ *
+ *     const model = new arch.Model()
+ *     model.addSurface( new arch.Surface([0,0,0, 1,0,0, 1,1,0], [0,1,2]) )
+ *     // YOUR CODE
+ * })
+ * ```
+ * Forcing the WebAssembly backend in a web browser
+ * ```javascript
+ * const arch = await loadArch({
+ *     backend : 'wasm',
+ *     wasmPath: 'https://my-cdn/arch.js',
+ *     onLicenseWarning: months => alert(`Arch will expire in ${months} month(s)`)
+ * })
+ * ```
+ * @category Loading
+ */
+export async function loadArch(options: LoadArchOptions = {}): Promise<ArchModule> {
+    const backend = options.backend || 'auto'
+    const node = isNode()
+
+    let arch: ArchModule
+    let used: ArchBackend
+    if (backend === 'native' || (backend === 'auto' && node)) {
+        const path = options.nativePath || 'arch.node'
+        try {
+            arch = require(path)
+            used = 'native'
+        } catch (e) {
+            if (backend === 'native') {
+                throw new Error(`Cannot load the native library "${path}": ${e instanceof Error ? e.message : String(e)}`)
+            }
+        }
+    }
+    if (arch === undefined) {
+        arch = await loadWasm(options.wasmPath || 'arch', node)
+        used = 'wasm'
+    }
+
+    if (typeof arch.license !== 'function') {
+        throw new Error('The loaded module is not the Arch library (no license() function)')
+    }
+    if (typeof arch.capabilities !== 'function') {
+        // the loaded module is shared (and frozen if it is an ES module): wrap it instead of patching it
+        const capabilities = deduceCapabilities(arch, used, node)
+        arch = Object.create(arch, { capabilities: { value: () => capabilities } }) as ArchModule
+    }
+
+    const months = arch.license()
+    const minMonths = options.minLicenseMonths !== undefined ? options.minLicenseMonths : 0
+    const warnMonths = options.warnLicenseMonths !== undefined ? options.warnLicenseMonths : 2
+    if (months < minMonths) {
+        throw new Error(`The Arch license expires in ${months} month(s), ${minMonths} required`)
+    }
+    if (months < warnMonths) {
+        if (options.onLicenseWarning) {
+            options.onLicenseWarning(months)
+        } else {
+            console.warn(`Arch will expire in ${months} month(s)`)
+        }
+    }
+
+    return arch
+}
+
+// ----------------------------------------------------------------------
+
+type WasmFactory = () => Promise<ArchModule>
+
+function isNode(): boolean {
+    return typeof process !== 'undefined' && process.versions !== undefined && process.versions.node !== undefined
+}
+
+async function loadWasm(path: string, node: boolean): Promise<ArchModule> {
+    let module: unknown
+    try {
+        module = node ? require(path) : await import(/* webpackIgnore: true */ path)
+    } catch (e) {
+        throw new Error(`Cannot load the WebAssembly module "${path}": ${e instanceof Error ? e.message : String(e)}`)
+    }
+    // The module generated by emscripten exports a factory, either directly or as the default export
+    const factory = typeof module === 'function' ? module : (module as { default?: unknown }).default
+    if (typeof factory !== 'function') {
+        throw new Error(`The WebAssembly module "${path}" does not export a factory function`)
+    }
+    return (factory as WasmFactory)()
+}
+
+function deduceCapabilities(arch: ArchModule, backend: ArchBackend, node: boolean): ArchCapabilities {
+    const module = arch as unknown as Record<string, unknown>
+    const multithreaded = backend === 'native' || (typeof SharedArrayBuffer !== 'undefined' && module.PThread !== undefined)
+    let cores = 1
+    if (multithreaded) {
+        cores = node ? require('os').cpus().length : (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 1)
+    }
+    const solvers = ['seidel', 'jacobi', 'gmres', 'cgns']
+    if (multithreaded) {
+        solvers.push('parallel')
+    }
+    return {
+        backend,
+        multithreaded,
+        maxCores: Math.max(1, cores || 1),
+        solvers,
+        version: typeof module.version === 'function' ? String(module.version()) : 'unknown'
+    }
+}
@@ -1,24 +1,50 @@
 // import { Material } from './materials'
 import { Surface } from './surface'
-import { UserRemote } from './remote'
+import { Remote } from './remote'
 import { Triangle } from './triangle'
+import { Convention, ConventionName } from './conventionConverter'
 
 //export namespace model {
 
 /**
  * A **Arch** model comprises a set of active objects ([[Surface]]
  * discontinuities), a [[Material]] and a set of [[Remote]]s.
+ * 
+ * A model can be saved and rebuilt using [[serializeModel]] and [[buildModel]].
  */
 export class Model {
     /**
-     * @brief Set the model model convention to be used by the model.
-     * By default the convention is `Okada`. You can change it to `Poly3D` by
-     * passing true to this method. If the argument is false, then the `Okada`
-     * convention will be used.
-     * @default false (i.e., "Okada")
+     * @brief Set the convention used by the whole API for this model. By default the convention is
+     * `okada`, i.e., the **Arch** one (see {@link Conventions}). Once set, the boundary conditions
+     * ({@link Surface.setBC}, {@link Surface.setBCValues}, {@link Triangle.setBc}), the imposed
+     * displacements ({@link Surface.setDisplFromTriangles}), the Burger's vectors in local coordinate
+     * system ({@link Surface.displ}, {@link Solution.burgers}, {@link Triangle.displ}), the residual
+     * tractions ({@link Solution.residualTractions}) and the local frames ({@link Triangle.toLocal},
+     * {@link Triangle.toGlobal}) are expressed in this convention, as if converted by a
+     * {@link ConventionConverter}. Values in global coordinate system are not affected.
+     *
+     * Call this method before setting the boundary conditions of the surfaces.
+     * @param convention A predefined convention name or a user-defined {@link Convention}
+     * @default 'okada'
+     * @example
+     * ```js
+     * const model = new arch.Model()
+     * model.setConvention('poly3d')
+     *
+     * // Poly3D axes and compression positive: the x-axis is the down-dip direction
+     * surface.setBC('x', 'free'  , 0)
+     * surface.setBC('y', 'free'  , 0)
+     * surface.setBC('z', 'locked', 0)
+     * model.addSurface(surface)
+     * ```
      * @see {@link Conventions}
      */
-    // setPoly3DConvention(b: boolean): void
+    setConvention(convention: ConventionName | Convention): void
+
+    /**
+     * @brief Get the convention of the model (see {@link setConvention})
+     */
+    convention(): Convention
 
     /**
      * @brief Set the model to in half-space or whole-space. By default the model is
@@ -39,6 +65,14 @@ export class Model {
      */
     addSurface(s: Surface): void
 
+    /**
+     * @brief Replace a surface of the model by another one, at the same position in the model
+     * (e.g., by a refined surface, see [[refineSurface]]). The boundary conditions and the constraints
+     * of the new surface are used.
+     * @throws If `previous` is not a surface of the model
+     */
+    replaceSurface(previous: Surface, surface: Surface): void
+
     /**
      * @brief Get the number of dof (degree of freedom) of the model
      */
@@ -63,11 +97,14 @@ export class Model {
      * model.addRemote(myRemote)
      * ```
      * @see [[UserRemote]]
+     * @see [[AndersonianRemote]]
+     * @see [[ComposedRemote]]
      */
-    addRemote(remote: UserRemote): void
+    addRemote(remote: Remote): void
 
     /**
-     * Check if the model is correctly setup
+     * Check if the model is correctly setup.
+     * To check the quality of the meshes, see [[diagnoseModel]]
      */
     check()
 }
@@ -32,6 +32,22 @@
  * ```
  * ---
  * 
+ * ### Using the unified loader
+ * To avoid writing the bootstrapping code for each backend, use {@link loadArch}.
+ * It returns a promise whatever the backend, checks the {@link license} and reports
+ * the capabilities of the loaded library (see {@link ArchCapabilities}):
+ * 
+ * ---
+ * ```js
+ * loadArch().then( arch => {
+ * 
+ *      console.log( arch.capabilities() )
+ *      // YOUR CODE
+ * 
+ * })
+ * ```
+ * ---
+ * 
  * 
  */
 export namespace Node_vs_WASM {}
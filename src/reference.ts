@@ -0,0 +1,280 @@
+import { FullTensor3 } from './influence'
+import { ModelDescription } from './serialization'
+import { tdDisplacement, tdFrame, tdStrain, strainToStress, TDMaterial } from './tde'
+import { FlatTensors, FlatVectors, FullTensor, NumericArray, Tensor, Vector } from './types'
+
+/**
+ * A triangle of a {@link ModelDescription}, flattened over all the surfaces
+ */
+interface ReferenceTriangle {
+    surface: number
+    p1: Vector
+    p2: Vector
+    p3: Vector
+    center: Vector
+}
+
+function collectTriangles(description: ModelDescription): ReferenceTriangle[] {
+    const triangles: ReferenceTriangle[] = []
+    description.surfaces.forEach((surface, s) => {
+        const v = (i: number): Vector => [surface.position[3 * i], surface.position[3 * i + 1], surface.position[3 * i + 2]]
+        for (let i = 0; i < surface.index.length; i += 3) {
+            const p1 = v(surface.index[i]), p2 = v(surface.index[i + 1]), p3 = v(surface.index[i + 2])
+            const center: Vector = [0, 1, 2].map(k => (p1[k] + p2[k] + p3[k]) / 3) as Vector
+            triangles.push({ surface: s, p1, p2, p3, center })
+        }
+    })
+    return triangles
+}
+
+const unitBurgers: Vector[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1]]
+
+/**
+ * A pure TypeScript implementation of the {@link Influence} matrices, based on the triangular
+ * dislocation solutions (see {@link tdDisplacement}, {@link tdStrain} and {@link tdStress}).
+ * It does not require the native or wasm library and is built from a {@link ModelDescription}
+ * (see {@link serializeModel}), so that results of **Arch** can be validated and algorithms
+ * can be unit-tested where the library is not available (e.g., in CI).
+ *
+ * Triangles are numbered over all the surfaces, in the order of the description. The Burger's
+ * vectors are in the local coordinate system of the source triangle as `[normal, strike, dip]`
+ * (see {@link tdFrame}).
+ * @example
+ * ```js
+ * const { ReferenceInfluence } = require('@youwol/arch-doc')
+ *
+ * const influence = new ReferenceInfluence( JSON.parse(fs.readFileSync('model.json', 'utf8')) )
+ * const Tij = influence.traction(2, 9)
+ *
+ * // Compare with the library
+ * const Aij = new arch.Influence(model).traction(2, 9)
+ * ```
+ * This is a reference implementation and it is slow compared to the library: use it for small models only.
+ * @category Reference
+ */
+export class ReferenceInfluence {
+    private triangles: ReferenceTriangle[]
+    private material: TDMaterial
+    private halfSpace: boolean
+
+    constructor(description: ModelDescription) {
+        this.triangles = collectTriangles(description)
+        this.material = { young: description.material.young, poisson: description.material.poisson }
+        this.halfSpace = description.halfSpace
+    }
+
+    /**
+     * @brief The number of triangles of the model
+     */
+    get nbTriangles(): number {
+        return this.triangles.length
+    }
+
+    /**
+     * @brief Get the center of a triangle
+     */
+    center(i: number): Vector {
+        return this.triangles[i].center
+    }
+
+    /**
+     * Get the traction influence matrix, `T`, at the center of the field triangle due to the source
+     * triangle, in the local coordinate system of the field triangle.
+     * @returns The non-symetric influence matrix as an array of size 9, where each row is the
+     * traction due to a unit Burger's vector component at the source:
+     * ```js
+     * [
+     *      x, y, z, // Burger 1
+     *      x, y, z, // Burger 2
+     *      x, y, z  // Burger 3
+     * ]
+     * ```
+     */
+    traction(field: number, source: number): FullTensor {
+        const f = this.triangles[field]
+        const { normal: n, strike: s, dip: d } = tdFrame(f.p1, f.p2, f.p3)
+        const T = this.stress(f.center, source)
+        const result: number[] = []
+        T.forEach(S => {
+            const t: Vector = [
+                S[0] * n[0] + S[1] * n[1] + S[2] * n[2],
+                S[3] * n[0] + S[4] * n[1] + S[5] * n[2],
+                S[6] * n[0] + S[7] * n[1] + S[8] * n[2]
+            ]
+            result.push(dot(n, t), dot(s, t), dot(d, t))
+        })
+        return result as FullTensor
+    }
+
+    /**
+     * Get the strain influence matrix, `S`, at field point p due to source triangle.
+     * @returns The influence matrix as an array of size 27 (tensor rank 3), one full tensor per
+     * unit Burger's vector component at the source
+     */
+    strain(field: Vector, source: number): FullTensor3 {
+        const t = this.triangles[source]
+        return unitBurgers.map(b => full(tdStrain(field, t.p1, t.p2, t.p3, b, this.material.poisson, this.halfSpace))) as FullTensor3
+    }
+
+    /**
+     * Get the stress influence matrix, `S`, at field point p due to source triangle.
+     * @returns The influence matrix as an array of size 27 (tensor rank 3), one full tensor per
+     * unit Burger's vector component at the source
+     */
+    stress(field: Vector, source: number): FullTensor3 {
+        const t = this.triangles[source]
+        return unitBurgers.map(b => {
+            const e = tdStrain(field, t.p1, t.p2, t.p3, b, this.material.poisson, this.halfSpace)
+            return full(strainToStress(e, this.material))
+        }) as FullTensor3
+    }
+
+    /**
+     * Get the displacement influence matrix, `D`, at field point p due to source triangle.
+     * The displacement is not defined on the source triangle itself.
+     * @returns The influence matrix as an array of size 9, one displacement per unit Burger's
+     * vector component at the source
+     */
+    displacement(field: Vector, source: number): FullTensor {
+        const t = this.triangles[source]
+        const result: number[] = []
+        unitBurgers.forEach(b => result.push(...tdDisplacement(field, t.p1, t.p2, t.p3, b, this.material.poisson, this.halfSpace)))
+        return result as FullTensor
+    }
+}
+
+/**
+ * A pure TypeScript evaluator of the displacement, strain and stress fields due to given Burger's
+ * vectors on the surfaces of a {@link ModelDescription}, with the same methods as {@link Solution}.
+ * Only the contribution of the displacement discontinuities is computed, i.e., the remote
+ * stress is not added.
+ * @example
+ * ```js
+ * const { ReferenceSolution } = require('@youwol/arch-doc')
+ *
+ * solver.run()
+ * const description = arch.serializeModel(model, { burgers: true })
+ *
+ * const reference = new ReferenceSolution(description)
+ * const u1 = reference.displ(points)
+ * const u2 = new arch.Solution(model).displ(points)
+ * ```
+ * @category Reference
+ */
+export class ReferenceSolution {
+    private triangles: ReferenceTriangle[]
+    private material: TDMaterial
+    private halfSpace: boolean
+    private values: Vector[]
+    private nbSurfaces: number
+
+    /**
+     * @param description The model
+     * @param burgers The Burger's vectors at triangles in local coordinate system, one flat array per
+     * surface. If not provided, the ones stored in the description are used (see {@link SerializeOptions.burgers}),
+     * or zero otherwise.
+     */
+    constructor(description: ModelDescription, burgers?: Array<FlatVectors>) {
+        this.triangles = collectTriangles(description)
+        this.material = { young: description.material.young, poisson: description.material.poisson }
+        this.halfSpace = description.halfSpace
+        this.values = []
+        this.nbSurfaces = description.surfaces.length
+        description.surfaces.forEach((surface, s) => {
+            const b = burgers ? burgers[s] : surface.burgers
+            const n = surface.index.length / 3
+            if (b !== undefined && b.length !== 3 * n) {
+                throw new Error(`Surface ${s}: expected ${3 * n} Burger's components, got ${b.length}`)
+            }
+            for (let i = 0; i < n; ++i) {
+                this.values.push(b ? [b[3 * i], b[3 * i + 1], b[3 * i + 2]] : [0, 0, 0])
+            }
+        })
+    }
+
+    /**
+     * @brief Get the Burger's vectors at triangles, one flat array per surface
+     * @param local If true, in the local coordinate system of each triangle
+     */
+    burgers(local: boolean): Array<FlatVectors> {
+        const result: Array<FlatVectors> = Array.from({ length: this.nbSurfaces }, () => [])
+        this.triangles.forEach((t, i) => {
+            const b = this.values[i]
+            if (local) {
+                result[t.surface].push(...b)
+            } else {
+                const { normal: n, strike: s, dip: d } = tdFrame(t.p1, t.p2, t.p3)
+                result[t.surface].push(...[0, 1, 2].map(k => n[k] * b[0] + s[k] * b[1] + d[k] * b[2]))
+            }
+        })
+        return result
+    }
+
+    /**
+     * @brief Compute the displacement field at points given in the flat array `position`.
+     */
+    displ(position: NumericArray): FlatVectors {
+        return forEachPoint(position, p => this.displAt(p[0], p[1], p[2]))
+    }
+
+    /**
+     * @brief Compute the strain field at points given in the flat array `position`.
+     */
+    strain(position: NumericArray): FlatTensors {
+        return forEachPoint(position, p => this.strainAt(p[0], p[1], p[2]))
+    }
+
+    /**
+     * @brief Compute the stress field at points given in the flat array `position`.
+     */
+    stress(position: NumericArray): FlatTensors {
+        return forEachPoint(position, p => this.stressAt(p[0], p[1], p[2]))
+    }
+
+    /**
+     * @brief Get the displacement at one observation point
+     */
+    displAt(x: number, y: number, z: number): Vector {
+        const u: Vector = [0, 0, 0]
+        this.triangles.forEach((t, i) => {
+            const v = tdDisplacement([x, y, z], t.p1, t.p2, t.p3, this.values[i], this.material.poisson, this.halfSpace)
+            for (let k = 0; k < 3; ++k) u[k] += v[k]
+        })
+        return u
+    }
+
+    /**
+     * @brief Get the strain at one observation point
+     */
+    strainAt(x: number, y: number, z: number): Tensor {
+        const e: Tensor = [0, 0, 0, 0, 0, 0]
+        this.triangles.forEach((t, i) => {
+            const v = tdStrain([x, y, z], t.p1, t.p2, t.p3, this.values[i], this.material.poisson, this.halfSpace)
+            for (let k = 0; k < 6; ++k) e[k] += v[k]
+        })
+        return e
+    }
+
+    /**
+     * @brief Get the stress at one observation point
+     */
+    stressAt(x: number, y: number, z: number): Tensor {
+        return strainToStress(this.strainAt(x, y, z), this.material)
+    }
+}
+
+function dot(a: Vector, b: Vector): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+function full(t: Tensor): FullTensor {
+    return [t[0], t[1], t[2], t[1], t[3], t[4], t[2], t[4], t[5]]
+}
+
+function forEachPoint(position: NumericArray, cb: (p: Vector) => number[]): number[] {
+    const result: number[] = []
+    for (let i = 0; i < position.length; i += 3) {
+        result.push(...cb([position[i], position[i + 1], position[i + 2]]))
+    }
+    return result
+}
@@ -0,0 +1,338 @@
+import { Model } from './model'
+import { Surface } from './surface'
+import { Solution } from './solution'
+import { Triangle } from './triangle'
+import { Vectord } from './types'
+
+/**
+ * Refine the triangles where the jump of the Burger's vector with a neighbor triangle, relative
+ * to the maximum Burger's vector magnitude of the surface, is greater than `threshold`
+ * @category Refinement
+ */
+export interface BurgersGradientCriterion {
+    type: 'burgersGradient'
+    threshold: number
+}
+
+/**
+ * Refine the triangles where the magnitude of the residual traction (see {@link Solution.residualTractions}),
+ * relative to the maximum one of the surface, is greater than `threshold`. Requires a {@link Solution}
+ * (see {@link RefineOptions.solution}).
+ * @category Refinement
+ */
+export interface ResidualTractionCriterion {
+    type: 'residualTraction'
+    threshold: number
+}
+
+/**
+ * Refine the triangles whose center is closer than `distance` to a tip-line of the surface
+ * (see {@link tipLines})
+ * @category Refinement
+ */
+export interface TipDistanceCriterion {
+    type: 'tipDistance'
+    distance: number
+}
+
+/**
+ * Refine the triangles flagged by the user, either with one flag per triangle (non-zero or true
+ * to refine) or with a callback
+ * @category Refinement
+ */
+export interface FlagsCriterion {
+    type: 'flags'
+    flags: Array<boolean> | Vectord | ((triangle: Triangle, index: number) => boolean)
+}
+
+/**
+ * A criterion used to select the triangles to refine. A triangle is refined if at least one
+ * of the criteria is met.
+ * @example
+ * ```js
+ * const criteria = [
+ *     { type: 'burgersGradient', threshold: 0.2 },
+ *     { type: 'tipDistance', distance: 50 },
+ *     { type: 'flags', flags: (t, i) => t.center()[2] > -1000 }
+ * ]
+ * ```
+ * @category Refinement
+ */
+export type RefinementCriterion =
+    BurgersGradientCriterion |
+    ResidualTractionCriterion |
+    TipDistanceCriterion |
+    FlagsCriterion
+
+/**
+ * How the per-triangle attributes of a surface are transferred to the refined triangles:
+ * - `constant`: each new triangle takes the value of its parent triangle
+ * - `linear`: the values are interpolated at the vertices of the original surface (see
+ * {@link SurfaceAttributeInterpolation.fromTrianglesToVertices}), then evaluated at the
+ * centers of the new triangles
+ * @category Refinement
+ */
+export type AttributeTransfer = 'constant' | 'linear'
+
+/**
+ * Options for {@link markTriangles} and {@link refineSurface}
+ * @category Refinement
+ */
+export interface RefineOptions {
+    criteria: Array<RefinementCriterion>
+
+    /**
+     * @brief The solution of the model, required by the `burgersGradient` criterion if the surface
+     * was not solved, and by the `residualTraction` one
+     */
+    solution?: Solution
+
+    /**
+     * @brief Triangles with a smaller area are never refined
+     * @default 0
+     */
+    minArea?: number
+
+    /**
+     * @brief No refinement is done beyond this number of triangles for the surface. The triangles
+     * are then refined in decreasing order of their criterion, until the limit is reached
+     * @default Infinity
+     */
+    maxTriangles?: number
+
+    /**
+     * @brief The transfer of the boundary values, of the constraint parameters and of the Burger's
+     * vectors (see {@link RefinedSurface})
+     * @default 'linear'
+     */
+    transfer?: AttributeTransfer
+
+    /**
+     * @brief If provided, the refined surface replaces the original one in this model
+     * (see {@link Model.replaceSurface})
+     */
+    model?: Model
+}
+
+/**
+ * The result of {@link refineSurface}
+ * @category Refinement
+ */
+export interface RefinedSurface {
+    /**
+     * @brief The new surface. It has the same boundary condition types as the original one, and
+     * the transferred boundary values, constraints and Burger's vectors:
+     * - boundary values given as a number are copied, values given by a callback (see {@link Surface.setBC})
+     *   are evaluated at the new triangle centers, and values given per triangle are transferred
+     *   according to {@link RefineOptions.transfer}
+     * - the constraints are added to the new surface, their per-triangle parameters (e.g., the friction
+     *   and the cohesion of a {@link Coulomb}) being transferred in the same way
+     * - the Burger's vectors are transferred in local coordinate system (the new triangles are in the
+     *   plane of their parent, so that their local frame is the same), and can be used as an initial
+     *   guess for the next solve
+     */
+    surface: Surface
+
+    /**
+     * @brief For each new triangle, the index of its parent in the original surface
+     */
+    parent: Vectord
+
+    /**
+     * @brief The indices of the original triangles which were refined
+     */
+    refined: Vectord
+}
+
+/**
+ * @brief Get the triangles of a surface meeting the refinement criteria
+ * @returns One flag per triangle, 1 if the triangle has to be refined and 0 otherwise
+ * @example
+ * ```js
+ * const flags = arch.markTriangles(fault, { criteria: [{ type: 'tipDistance', distance: 100 }] })
+ * console.log(`${flags.filter( f => f ).length} triangles to refine`)
+ * ```
+ * @category Refinement
+ */
+export function markTriangles(surface: Surface, options: RefineOptions): Vectord
+
+/**
+ * @brief Refine the triangles of a surface meeting the refinement criteria (see {@link markTriangles})
+ * and rebuild the surface, carrying the attributes of the triangles across the new mesh (see
+ * {@link RefinedSurface.surface}).
+ *
+ * The marked triangles are split into 4 by their edge midpoints, and the neighbor triangles are split
+ * into 2 or 3 so that the mesh stays conforming. The new vertices are added in the plane of the
+ * triangles, i.e., the geometry is not smoothed.
+ * @example
+ * ```js
+ * solver.run()
+ *
+ * const result = arch.refineSurface(fault, {
+ *     criteria: [{ type: 'residualTraction', threshold: 0.1 }],
+ *     solution: new arch.Solution(model),
+ *     model
+ * })
+ * console.log(`${result.refined.length} triangles refined, ${result.surface.nbTriangles()} now`)
+ *
+ * // The model now uses the refined surface
+ * new arch.Forward(model, 'seidel', 1e-9, 200).run()
+ * ```
+ * @category Refinement
+ */
+export function refineSurface(surface: Surface, options: RefineOptions): RefinedSurface
+
+/**
+ * One iteration of an {@link AdaptiveRefinement}
+ * @category Refinement
+ */
+export interface AdaptiveIteration {
+    iteration: number
+
+    /**
+     * @brief The total number of triangles of the refined surfaces before this iteration
+     */
+    nbTriangles: number
+
+    /**
+     * @brief The number of triangles refined during this iteration
+     */
+    nbRefined: number
+
+    /**
+     * @brief The monitored quantity (see {@link AdaptiveRefinement.setMeasure})
+     */
+    measure: number
+
+    /**
+     * @brief The relative change of the measure compared to the previous iteration
+     * (`Infinity` for the first one)
+     */
+    change: number
+}
+
+/**
+ * The result of {@link AdaptiveRefinement.run}
+ * @category Refinement
+ */
+export interface AdaptiveResult {
+    /**
+     * @brief True if the relative change of the measure is below the tolerance, or if
+     * nothing was left to refine
+     */
+    converged: boolean
+
+    iterations: Array<AdaptiveIteration>
+
+    /**
+     * @brief The refined surfaces, in the order given to the driver. They replaced
+     * the original ones in the model
+     */
+    surfaces: Array<Surface>
+
+    /**
+     * @brief The solution of the last solve, on the refined model
+     */
+    solution: Solution
+}
+
+/**
+ * Iterate solve and refine on a model until the solution does not change anymore. At each iteration,
+ * the model is solved with {@link Forward}, the monitored quantity is computed and compared with the
+ * previous iteration, then the surfaces are refined with {@link refineSurface} (the Burger's vectors
+ * being transferred as initial guess). The iterations stop when the relative change of the measure is
+ * below the tolerance, when no triangle meets the criteria, or when a limit is reached.
+ * @example
+ * ```js
+ * const adaptive = new arch.AdaptiveRefinement(model)
+ * adaptive.setSurfaces([fault])
+ * adaptive.setCriteria([
+ *     { type: 'burgersGradient', threshold: 0.2 },
+ *     { type: 'tipDistance', distance: 50 }
+ * ])
+ * adaptive.setSolver('seidel', 1e-9, 500)
+ * adaptive.setTolerance(1e-2)
+ * adaptive.onIteration( it => console.log(`#${it.iteration}: ${it.nbTriangles} triangles, change ${it.change.toExponential(2)}`) )
+ *
+ * const result = adaptive.run()
+ * if (!result.converged) console.warn('Not converged')
+ *
+ * const stress = result.solution.stress(grid)
+ * ```
+ * @category Refinement
+ */
+export class AdaptiveRefinement {
+    constructor(model: Model)
+
+    /**
+     * @brief Set the surfaces to refine
+     * @default All the surfaces of the model
+     */
+    setSurfaces(surfaces: Array<Surface>): void
+
+    /**
+     * @brief Set the refinement criteria (see {@link RefinementCriterion})
+     * @default [{ type: 'burgersGradient', threshold: 0.1 }]
+     */
+    setCriteria(criteria: Array<RefinementCriterion>): void
+
+    /**
+     * @brief Set the tolerance on the relative change of the measure between two iterations
+     * @default 1e-2
+     */
+    setTolerance(tol: number): void
+
+    /**
+     * @brief Set the quantity monitored for the convergence
+     * @param measure Either `potency` (the sum over the refined surfaces of the area times the magnitude
+     * of the Burger's vector), `residualTraction` (the L2 norm of the residual tractions) or a callback
+     * @default 'potency'
+     */
+    setMeasure(measure: 'potency' | 'residualTraction' | ((model: Model, solution: Solution) => number)): void
+
+    /**
+     * @brief Set the maximum number of solve-refine iterations
+     * @default 5
+     */
+    setMaxIterations(n: number): void
+
+    /**
+     * @brief Set the maximum number of triangles per surface (see {@link RefineOptions.maxTriangles})
+     * @default 100000
+     */
+    setMaxTriangles(n: number): void
+
+    /**
+     * @brief Set the minimum area of the refined triangles (see {@link RefineOptions.minArea})
+     * @default 0
+     */
+    setMinArea(area: number): void
+
+    /**
+     * @brief Set the transfer of the attributes (see {@link RefineOptions.transfer})
+     * @default 'linear'
+     */
+    setTransfer(transfer: AttributeTransfer): void
+
+    /**
+     * @brief Set the solver used at each iteration
+     * @see {@link Forward.select}
+     */
+    setSolver(name: string, tol: number, maxIter: number): void
+
+    /**
+     * @brief Set the number of threads used by the solver
+     * @default 1
+     */
+    setNbCores(n: number): void
+
+    /**
+     * @brief Notified after each iteration
+     */
+    onIteration(cb: (iteration: AdaptiveIteration) => void): void
+
+    /**
+     * @brief Run the iterations. The surfaces of the model are replaced by the refined ones.
+     */
+    run(): AdaptiveResult
+}
@@ -383,6 +383,7 @@ export class IncrementalUserRemote implements Remote {
     /**
      * @brief Launch the incremental user remote loading. Received parameters for the
      * callback are (i) the stress evaluated at (0,0,1) and (ii) the step number.
+     * See also [[Simulation]] which performs the accumulation loop.
      * @example
      * ```js
      * ...
@@ -0,0 +1,143 @@
+import { Model } from './model'
+import { Remote } from './remote'
+import { Surface } from './surface'
+import { RemoteDescription } from './serialization'
+import { FlatVectors, Tensor, Vector } from './types'
+
+/**
+ * A remote built from typed building blocks (gradients, pore pressure, principal stresses...)
+ * and combinators (`add`, `scale`, `rotate`). Combinators return a new remote and never modify
+ * the current one.
+ *
+ * As opposed to a [[UserRemote]], a composed remote does not rely on a callback and
+ * is therefore serializable (see [[ComposedRemote.toJSON]] and [[serializeModel]]).
+ *
+ * All values are given in engineer convention, meaning that compression is negatif.
+ * @example
+ * ```javascript
+ * // The gradient Andersonian remote of the UserRemote example, without any callback
+ * const rho = 2200
+ * const remote = arch.ComposedRemote
+ *     .fromPrincipal([0.1, 0.6, 1], [[1,0,0], [0,1,0], [0,0,1]], { gradient: -rho*9.81 })
+ *     .rotate(45)
+ *
+ * // Effective stress with an hydrostatic pore pressure
+ * const effective = arch.ComposedRemote.lithostatic(2500, 0.8)
+ *     .add( arch.ComposedRemote.porePressure(1000) )
+ *
+ * model.addRemote(effective)
+ * ```
+ * @category Remotes
+ */
+export class ComposedRemote implements Remote {
+    /**
+     * @brief A constant stress
+     */
+    static constant(stress: Tensor): ComposedRemote
+
+    /**
+     * @brief A stress varying linearly with depth: `gradient*|z| + shift`
+     * @param gradient The stress gradient per unit of depth
+     * @param shift The stress at z=0
+     * @default shift [0,0,0,0,0,0]
+     */
+    static depthGradient(gradient: Tensor, shift?: Tensor): ComposedRemote
+
+    /**
+     * @brief The lithostatic stress `Sv = -density*g*|z|`, with the horizontal stresses
+     * equal to `k*Sv`
+     * @param density The density of the rock
+     * @param k The ratio of the horizontal stresses to the vertical one
+     * @param g The gravity
+     * @default k 1
+     * @default g 9.81
+     */
+    static lithostatic(density: number, k?: number, g?: number): ComposedRemote
+
+    /**
+     * @brief The contribution of an hydrostatic pore pressure `p = fluidDensity*g*|z|` to the
+     * effective stress, i.e., the isotropic tensor `biot*p`. Adding it to a total stress gives
+     * the effective stress.
+     * @param fluidDensity The density of the fluid
+     * @param biot The Biot coefficient
+     * @param g The gravity
+     * @default biot 1
+     * @default g 9.81
+     */
+    static porePressure(fluidDensity: number, biot?: number, g?: number): ComposedRemote
+
+    /**
+     * @brief A stress given by its principal values and directions
+     * @param values The principal values, in the same order as the directions
+     * @param directions The three orthonormal principal directions
+     * @param options If `gradient` is provided, the principal values are multiplied
+     * by `gradient*|z|`
+     */
+    static fromPrincipal(values: Vector, directions: [Vector, Vector, Vector], options?: { gradient?: number }): ComposedRemote
+
+    /**
+     * @brief A stress computed from a remote strain using the Hooke's law and the material
+     * of the model (see [[Model.setMaterial]]). The material is read when the remote is
+     * evaluated, so changing the material of the model updates the remote.
+     * @param model The model providing the material
+     * @param strain The remote strain
+     * @param options If `gradient` is true, the strain is multiplied by `|z|`
+     */
+    static fromStrain(model: Model, strain: Tensor, options?: { gradient?: boolean }): ComposedRemote
+
+    /**
+     * @brief Wrap any remote (e.g., an [[AndersonianRemote]]) to combine it
+     */
+    static from(remote: Remote): ComposedRemote
+
+    /**
+     * @brief Build a remote from its description
+     * @see [[ComposedRemote.toJSON]]
+     */
+    static fromJSON(description: RemoteDescription): ComposedRemote
+
+    /**
+     * @brief The sum of this remote and other ones
+     */
+    add(...remotes: Array<Remote>): ComposedRemote
+
+    /**
+     * @brief This remote multiplied by a factor
+     */
+    scale(factor: number): ComposedRemote
+
+    /**
+     * @brief This remote rotated around the vertical axis
+     * @param azimuth The angle in degrees, clock-wise (as for [[AndersonianRemote.setTheta]])
+     */
+    rotate(azimuth: number): ComposedRemote
+
+    /**
+     * @brief Get the description of this remote (see [[ComposedRemoteDescription]]).
+     * A [[UserRemote]] wrapped with [[ComposedRemote.from]] cannot be described and an `Error` is thrown.
+     */
+    toJSON(): RemoteDescription
+
+    /**
+     * @brief Evaluate the remote at pos(x,y,z)
+     * @param pos The position in 3D
+     * @returns {Tensor} The remote at pos. The returned array is in the form
+     * `[xx, xy, xz, yy, yz, zz]`
+     */
+    valueAt(pos: Vector): Tensor
+
+    /**
+     * @brief Evaluate the traction at pos(x,y,z) with normal n(x,y,z)
+     * @param pos The position in 3D (e.g., center of a triangle)
+     * @param normal The normal at point pos
+     * @returns {Vector} The traction vector in the form `[x, y, z]`
+     */
+    tractionAt(pos: Vector, normal: Vector): Vector
+
+    /**
+     * @brief Get the resolved stress at a surface's triangles
+     * @param surface
+     * @return A flat array of tractions, one for each triangle making the surface
+     */
+    tractionAtSurface(surface: Surface): FlatVectors
+}
@@ -0,0 +1,169 @@
+import { Model } from './model'
+import { LoadArchOptions } from './loader'
+import { ModelDescription } from './serialization'
+import { SolutionField } from './solution'
+import { FlatTensors, FlatVectors } from './types'
+
+/**
+ * An event emitted by a {@link ForwardJob} while running. The `building` and `iteration`
+ * events correspond to the `context` 1 and 2 of {@link SolverProgressCB}, and
+ * `post-process` to {@link SolutionProgressCB}.
+ * @category Solvers
+ */
+export type RunnerEvent =
+    { type: 'building', percent: number } |
+    { type: 'iteration', iteration: number, residual: number } |
+    { type: 'post-process', field: SolutionField, count: number, percent: number } |
+    { type: 'message', message: string } |
+    { type: 'warning', message: string }
+
+/**
+ * Options for {@link ForwardRunner.run}
+ * @category Solvers
+ */
+export interface RunOptions {
+    /**
+     * @brief The solver name (see {@link Forward.select})
+     * @default 'seidel'
+     */
+    solver?: string
+
+    /**
+     * @default 1e-9
+     */
+    tol?: number
+
+    /**
+     * @default 2000
+     */
+    maxIter?: number
+
+    /**
+     * @brief The number of threads for the solver and the post-process
+     * (see {@link ArchCapabilities.multithreaded})
+     * @default 1
+     */
+    cores?: number
+
+    /**
+     * @brief Observation points for the post-process
+     */
+    observations?: FlatVectors
+
+    /**
+     * @brief The fields to compute at the observation points
+     * @default ['displ', 'stress']
+     */
+    fields?: Array<SolutionField>
+
+    /**
+     * @brief How the Burger's vectors are returned (see {@link Solution.burgers})
+     * @default { local: true, atTriangles: true }
+     */
+    burgers?: { local: boolean, atTriangles: boolean }
+
+    /**
+     * @brief Signal to cancel the run (solver or post-process)
+     */
+    signal?: AbortSignal
+}
+
+/**
+ * The result of a {@link ForwardJob}
+ * @category Solvers
+ */
+export interface RunResult {
+    /**
+     * @brief The Burger's vectors, one entry per surface (see {@link Solution.burgers})
+     */
+    burgers: Array<FlatVectors>
+
+    /**
+     * @brief The residual tractions, one entry per surface (see {@link Solution.residualTractions})
+     */
+    residualTractions: Array<FlatVectors>
+
+    displ?: FlatVectors
+    strain?: FlatTensors
+    stress?: FlatTensors
+}
+
+/**
+ * A run started by {@link ForwardRunner.run}. The events can be consumed with a
+ * `for await` loop, either on the job itself or on {@link events}.
+ * @category Solvers
+ */
+export interface ForwardJob extends AsyncIterable<RunnerEvent> {
+    /**
+     * @brief The stream of progress events. It ends when the run is done. If the run is cancelled
+     * or fails, the iteration throws the same error as {@link result}, so that a `for await` loop
+     * stops with the error.
+     */
+    events: AsyncIterable<RunnerEvent>
+
+    /**
+     * @brief The result of the run. The promise is rejected with a `DOMException` named
+     * `AbortError` if the run was cancelled using the signal, or with an `Error` if the
+     * solver sent an error (see {@link Forward.onError}).
+     *
+     * The rejection is marked as handled when the job is created, so that no unhandled
+     * rejection is reported if `result` is awaited after the events, or never awaited.
+     */
+    result: Promise<RunResult>
+}
+
+/**
+ * Run {@link Forward} and the {@link Solution} post-process in a Web Worker (web browser) or in a
+ * `worker_threads` (node.js), so that the main thread (e.g., the UI) is never frozen.
+ *
+ * Since a {@link Model} cannot be shared between threads, it is transferred using its
+ * {@link ModelDescription}. Callback based remotes are sampled (see {@link serializeModel}).
+ * @example
+ * ```js
+ * const runner = new arch.ForwardRunner()
+ * const controller = new AbortController()
+ * cancelButton.onclick = () => controller.abort()
+ *
+ * const job = runner.run(model, {
+ *     solver      : 'parallel',
+ *     cores       : 8,
+ *     observations: grid,
+ *     fields      : ['displ', 'stress'],
+ *     signal      : controller.signal
+ * })
+ *
+ * try {
+ *     // Throws if the run is cancelled or fails
+ *     for await (const e of job) {
+ *         if (e.type === 'building')  progress.text = `building system: ${e.percent.toFixed(0)}%`
+ *         if (e.type === 'iteration') progress.text = `iter ${e.iteration}: residual ${e.residual}`
+ *     }
+ *     const { burgers, stress } = await job.result
+ * } catch(e) {
+ *     if (e.name === 'AbortError') console.log('cancelled')
+ *     else throw e
+ * }
+ * ```
+ * @category Solvers
+ */
+export class ForwardRunner {
+    /**
+     * @param options
+     * - `worker`: where to run. With `auto`, a Web Worker is used in a web browser and a
+     * `worker_threads` in node.js. With `none`, the run is done in the current thread (the
+     * events are still asynchronous). Default is `auto`.
+     * - `load`: the options used to load **Arch** in the worker (see {@link loadArch})
+     */
+    constructor(options?: { worker?: 'auto' | 'web' | 'node' | 'none', load?: LoadArchOptions })
+
+    /**
+     * @brief Start a run. Several runs can be started with the same runner, they are
+     * executed one after the other.
+     */
+    run(model: Model | ModelDescription, options?: RunOptions): ForwardJob
+
+    /**
+     * @brief Cancel all the pending runs and terminate the worker
+     */
+    terminate(): void
+}
@@ -0,0 +1,337 @@
+import { Model } from './model'
+import { Convention } from './conventionConverter'
+import { FlatTensors, FlatVectors, Tensor, Vector, Vectord } from './types'
+
+/**
+ * The boundary condition of one axis of a {@link Surface}, as stored in a
+ * {@link ModelDescription}. Values given by a callback in {@link Surface.setBC}
+ * are sampled at the triangle centers and stored as an array.
+ * @see {@link Surface.setBC}
+ * @category Serialization
+ */
+export interface BCDescription {
+    /**
+     * @brief The type of boundary condition (see {@link Surface.setBC} for the synonyms)
+     */
+    type: 'free' | 'locked'
+
+    /**
+     * @brief The boundary value, either one for all triangles or one per triangle
+     */
+    value: number | Vectord
+}
+
+/**
+ * A constraint as stored in a {@link ModelDescription}.
+ * {@link UserTic} and {@link UserDic} are callback based and cannot be serialized.
+ * @category Serialization
+ */
+export interface CoulombDescription {
+    type: 'coulomb'
+
+    /**
+     * @brief The friction, either one for all triangles or one per triangle
+     * @see {@link Coulomb.setFriction}
+     */
+    friction: number | Vectord
+
+    /**
+     * @brief The cohesion, either one for all triangles or one per triangle
+     * @see {@link Coulomb.setCohesion}
+     */
+    cohesion: number | Vectord
+}
+
+/**
+ * A declarative constraint as stored in a {@link ModelDescription}. The parameters are
+ * the ones of the corresponding class, either one for all triangles or one per triangle.
+ * @category Serialization
+ */
+export type ConstraintDescription =
+    CoulombDescription |
+    { type: 'noInterpenetration' } |
+    { type: 'tensileCutoff', strength: number | Vectord } |
+    { type: 'slipWeakening', staticFriction: number | Vectord, dynamicFriction: number | Vectord, dc: number | Vectord, cohesion: number | Vectord } |
+    { type: 'dilatantFriction', friction: number | Vectord, cohesion: number | Vectord, dilatancy: number | Vectord } |
+    { type: 'maxSlip', max: number | Vectord } |
+    { type: 'displacementBounds', min: [number | Vectord, number | Vectord, number | Vectord], max: [number | Vectord, number | Vectord, number | Vectord] } |
+    { type: 'sequence', constraints: Array<ConstraintDescription> }
+
+/**
+ * An {@link AndersonianRemote} as stored in a {@link ModelDescription}. Only
+ * constant magnitudes can be stored. If one of the magnitudes was given by a callback,
+ * the remote is sampled (see {@link SampledRemoteDescription}).
+ * @category Serialization
+ */
+export interface AndersonianRemoteDescription {
+    type: 'andersonian'
+    Sh: number
+    SH: number
+    Sv: number
+    /**
+     * @brief In degrees, according to the North and clock-wise
+     */
+    theta: number
+}
+
+/**
+ * A callback based remote (e.g., {@link UserRemote}) sampled at the triangle
+ * centers of all surfaces. When rebuilt, the remote is a {@link UserRemote} returning
+ * the value of the closest sample.
+ * @category Serialization
+ */
+export interface SampledRemoteDescription {
+    type: 'sampled'
+
+    /**
+     * @brief The positions where the remote was sampled
+     */
+    position: FlatVectors
+
+    /**
+     * @brief The sampled stress, one {@link Tensor} per position
+     */
+    value: FlatTensors
+}
+
+/**
+ * A {@link ComposedRemote} as stored in a {@link ModelDescription}. It is a tree where
+ * the leaves are the building blocks and the nodes the combinators.
+ * @example
+ * ```json
+ * {
+ *     "type": "rotate", "azimuth": 30, "remote": {
+ *         "type": "add", "remotes": [
+ *             { "type": "lithostatic", "density": 2500, "k": 0.8, "g": 9.81 },
+ *             { "type": "porePressure", "fluidDensity": 1000, "biot": 1, "g": 9.81 }
+ *         ]
+ *     }
+ * }
+ * ```
+ * @category Serialization
+ */
+export type ComposedRemoteDescription =
+    { type: 'constant', stress: Tensor } |
+    { type: 'depthGradient', gradient: Tensor, shift: Tensor } |
+    { type: 'lithostatic', density: number, k: number, g: number } |
+    { type: 'porePressure', fluidDensity: number, biot: number, g: number } |
+    { type: 'principal', values: Vector, directions: [Vector, Vector, Vector], gradient?: number } |
+    { type: 'strain', strain: Tensor, gradient: boolean } |
+    { type: 'add', remotes: Array<RemoteDescription> } |
+    { type: 'scale', factor: number, remote: RemoteDescription } |
+    { type: 'rotate', azimuth: number, remote: RemoteDescription }
+
+/**
+ * @category Serialization
+ */
+export type RemoteDescription = AndersonianRemoteDescription | SampledRemoteDescription | ComposedRemoteDescription
+
+/**
+ * A {@link Surface} as stored in a {@link ModelDescription}
+ * @category Serialization
+ */
+export interface SurfaceDescription {
+    /**
+     * @brief Optional name of the surface
+     */
+    name?: string
+
+    /**
+     * @brief The vertices coordinates in flat array
+     */
+    position: FlatVectors
+
+    /**
+     * @brief The triangles indices in flat array
+     */
+    index: Vectord
+
+    /**
+     * @brief The boundary conditions for each axis
+     */
+    bc: {
+        normal: BCDescription,
+        strike: BCDescription,
+        dip   : BCDescription
+    }
+
+    /**
+     * @brief The constraints, in the order they were added
+     */
+    constraints: Array<ConstraintDescription>
+
+    /**
+     * @brief The current Burger's vectors at triangles, in local coordinate system
+     * (only if `options.burgers` was set to true in {@link serializeModel})
+     */
+    burgers?: FlatVectors
+}
+
+/**
+ * Something that was not serialized by {@link serializeModel}
+ * @category Serialization
+ */
+export interface NonSerializableItem {
+    /**
+     * @brief The kind of object
+     */
+    kind: 'remote' | 'constraint'
+
+    /**
+     * @brief The name of the class, e.g., `UserTic`
+     */
+    className: string
+
+    /**
+     * @brief The index of the surface for a constraint, undefined otherwise
+     */
+    surface?: number
+
+    /**
+     * @brief Why the object was not serialized
+     */
+    reason: string
+}
+
+/**
+ * A versioned and JSON compatible description of a {@link Model}.
+ * @example
+ * ```json
+ * {
+ *     "format": "arch-model",
+ *     "version": 1,
+ *     "halfSpace": true,
+ *     "material": { "poisson": 0.25, "young": 30e9, "density": 2000 },
+ *     "surfaces": [{
+ *         "position": [0,0,0, 1,0,0, 1,1,0],
+ *         "index": [0,1,2],
+ *         "bc": {
+ *             "normal": { "type": "locked", "value": 0 },
+ *             "strike": { "type": "free"  , "value": 0 },
+ *             "dip"   : { "type": "free"  , "value": [0.1] }
+ *         },
+ *         "constraints": [{ "type": "coulomb", "friction": 0.6, "cohesion": 0 }]
+ *     }],
+ *     "remotes": [{ "type": "andersonian", "Sh": -1, "SH": -2, "Sv": -3, "theta": 30 }]
+ * }
+ * ```
+ * @category Serialization
+ */
+export interface ModelDescription {
+    format: 'arch-model'
+
+    /**
+     * @brief The version of the format. A model stored with an older version
+     * is upgraded when read
+     */
+    version: number
+
+    halfSpace: boolean
+
+    material: {
+        poisson: number,
+        young  : number,
+        density: number
+    }
+
+    surfaces: Array<SurfaceDescription>
+
+    remotes: Array<RemoteDescription>
+
+    /**
+     * @brief The convention of the model (see {@link Model.setConvention}). The boundary
+     * values and the Burger's vectors of the description are always stored in the **Arch** (Okada)
+     * convention, so that a description can be read whatever the convention.
+     * @default 'okada'
+     */
+    convention?: Convention
+
+    /**
+     * @brief What was skipped during the serialization (only when
+     * `options.callbacks` is `report`)
+     */
+    nonSerializable?: Array<NonSerializableItem>
+}
+
+/**
+ * Options for {@link serializeModel}
+ * @category Serialization
+ */
+export interface SerializeOptions {
+    /**
+     * @brief What to do with callback based remotes ({@link ComposedRemote} are always
+     * stored as a {@link ComposedRemoteDescription}). With `sample`, they are evaluated at
+     * the triangle centers (see {@link SampledRemoteDescription}). With `report`, they are
+     * skipped and listed in {@link ModelDescription.nonSerializable}.
+     * Callback based constraints ({@link UserTic}, {@link UserDic}) are always reported.
+     * @default 'sample'
+     */
+    callbacks?: 'sample' | 'report'
+
+    /**
+     * @brief Also store the current Burger's vectors of each surface
+     * @default false
+     */
+    burgers?: boolean
+}
+
+/**
+ * @brief Get a JSON compatible description of a {@link Model}, including the surfaces,
+ * the per-triangle boundary conditions, the {@link Coulomb} constraints, the material,
+ * the half-space flag and the remotes.
+ * @example
+ * ```javascript
+ * const desc = arch.serializeModel(model, { callbacks: 'report' })
+ * if (desc.nonSerializable) {
+ *     desc.nonSerializable.forEach( item => console.warn(item.className, item.reason) )
+ * }
+ * fs.writeFileSync('model.json', JSON.stringify(desc), 'utf8')
+ * ```
+ * @see {@link buildModel}
+ * @category Serialization
+ */
+export function serializeModel(model: Model, options?: SerializeOptions): ModelDescription
+
+/**
+ * @brief Build a {@link Model} from its description. The description is validated first
+ * (see {@link validateModel}) and an `Error` listing the problems is thrown if it is not valid.
+ * @example
+ * ```javascript
+ * const model  = arch.buildModel( JSON.parse(fs.readFileSync('model.json', 'utf8')) )
+ * const solver = new arch.Forward(model)
+ * solver.run()
+ * ```
+ * @see {@link serializeModel}
+ * @category Serialization
+ */
+export function buildModel(description: ModelDescription): Model
+
+/**
+ * @brief Validate a description against the schema of the model format (see {@link modelSchema})
+ * and check the consistency of the arrays (e.g., per-triangle values must have the same
+ * length as the number of triangles).
+ * @returns The list of errors, empty if the description is valid
+ * @category Serialization
+ */
+export function validateModel(description: unknown): Array<string>
+
+/**
+ * @brief Get the [JSON schema](https://json-schema.org) of the current version of the model format
+ * @category Serialization
+ */
+export function modelSchema(): object
+
+/**
+ * @brief Encode a description in a compact binary form. Arrays are stored as `Float64Array`
+ * (or `Uint32Array` for the indices), which is much smaller and faster to read than JSON
+ * for large surfaces.
+ * @see {@link decodeModelBinary}
+ * @category Serialization
+ */
+export function encodeModelBinary(description: ModelDescription): ArrayBuffer
+
+/**
+ * @brief Decode a description encoded by {@link encodeModelBinary}
+ * @category Serialization
+ */
+export function decodeModelBinary(buffer: ArrayBuffer): ModelDescription
@@ -0,0 +1,196 @@
+import { Model } from './model'
+import { Remote } from './remote'
+import { Surface } from './surface'
+import { FlatTensors, FlatVectors, Vectord } from './types'
+
+/**
+ * One step of the load path of a {@link Simulation}. All the values are increments,
+ * applied during this step only.
+ * @category Solvers
+ */
+export interface LoadStep {
+    /**
+     * @brief The remote increments for this step. They replace the remotes of the model
+     * during the step.
+     */
+    remotes?: Array<Remote>
+
+    /**
+     * @brief Pressure increments (traction along the normal) in surfaces, given by a number,
+     * one value per triangle or a callback `(x, y, z) => number`. The normal axis of the surfaces
+     * must be `free`.
+     */
+    pressure?: Array<{ surface: Surface, value: number | Vectord | ((x: number, y: number, z: number) => number) }>
+
+    /**
+     * @brief Boundary condition changes for this step (see {@link Surface.setBC}). As for
+     * `pressure`, the value can be a number, one value per triangle or a callback `(x, y, z) => number`
+     */
+    bc?: Array<{ surface: Surface, axis: number | string, type: string, value: number | Vectord | ((x: number, y: number, z: number) => number) }>
+
+    /**
+     * @brief Split this step into sub-steps of equal increments
+     * @default 1
+     */
+    nbSubSteps?: number
+}
+
+/**
+ * The result of one (sub-)step of a {@link Simulation}
+ * @category Solvers
+ */
+export interface StepResult {
+    /**
+     * @brief The index of the (sub-)step, starting at 0
+     */
+    step: number
+
+    /**
+     * @brief The Burger's vectors (local, at triangles), one entry per surface
+     */
+    burgers: Array<FlatVectors>
+
+    /**
+     * @brief The traction vectors (local, at triangles) acting on the surfaces, one entry per
+     * surface. They include the remote and the effect of all the discontinuities, i.e., the
+     * imposed tractions for the `free` axes and the computed ones for the `locked` axes
+     */
+    tractions: Array<FlatVectors>
+
+    /**
+     * @brief The stress tensors at the triangle centers of the surfaces (global coordinate system),
+     * one entry per surface. Only if {@link Simulation.setSurfaceStress} was enabled
+     */
+    surfaceStress?: Array<FlatTensors>
+
+    /**
+     * @brief The positions of the vertices of each surface at the end of the step
+     */
+    surfaces: Array<FlatVectors>
+
+    /**
+     * @brief The positions of the observation points at the end of the step
+     */
+    position?: FlatVectors
+
+    /**
+     * @brief The displacement at observation points
+     */
+    displ?: FlatVectors
+
+    /**
+     * @brief The stress at observation points
+     */
+    stress?: FlatTensors
+}
+
+/**
+ * The per-step history of a {@link Simulation}
+ * @category Solvers
+ */
+export interface SimulationHistory {
+    /**
+     * @brief The number of (sub-)steps
+     */
+    nbSteps(): number
+
+    /**
+     * @brief Get the increments of a step
+     */
+    step(i: number): StepResult
+
+    /**
+     * @brief Get the values accumulated from the first step up to step `i` (included).
+     * If `i` is not provided, the last step is used.
+     */
+    cumulated(i?: number): StepResult
+
+    /**
+     * @brief Iterate over the steps (increments)
+     */
+    forEachStep(cb: (step: StepResult, i: number) => void): void
+
+    /**
+     * @brief Get a JSON compatible representation of the history, for export or replay
+     */
+    toJSON(): object
+}
+
+/**
+ * A quasi-static multi-step simulation driver. For each step of the load path, the
+ * model is solved and the Burger's vectors and the tractions (optionally the stress) are
+ * accumulated on the surfaces, as well as the displacement and the stress at observation
+ * points. Optionally, the surfaces and the observation points are deformed between steps.
+ *
+ * The same {@link Forward} solver is used for all steps, and any change of geometry of the
+ * surfaces (deformation or call to {@link Surface.changeCoordinates}) is detected before each
+ * step, so that calling {@link Forward.setDirty} is no longer necessary.
+ * @example
+ * ```js
+ * const sim = new arch.Simulation(model)
+ *
+ * sim.setLoadPath([
+ *     // Apply a vertical loading in 10 steps
+ *     { remotes: [new arch.UserRemote( (x,y,z) => [0,0,0,0,0, -1000] )], nbSubSteps: 10 },
+ *     // Then inflate the chamber
+ *     { pressure: [{ surface: chamber, value: 100 }] }
+ * ])
+ * sim.setObservations(points)
+ * sim.setDeformSurfaces(true)
+ * sim.onStep( (r, i) => console.log(`step ${i} done`) )
+ *
+ * const history = sim.run()
+ * const total   = history.cumulated()
+ * console.log( total.position ) // deformed observation points
+ * ```
+ * @category Solvers
+ */
+export class Simulation {
+    constructor(model: Model)
+
+    /**
+     * @brief Set the sequence of load increments
+     */
+    setLoadPath(steps: Array<LoadStep>): void
+
+    /**
+     * @brief Set the observation points where the displacement and stress are accumulated
+     */
+    setObservations(position: FlatVectors): void
+
+    /**
+     * @brief Deform the surfaces with their displacement field (at vertices, global coordinate
+     * system) after each step
+     * @default false
+     */
+    setDeformSurfaces(b: boolean): void
+
+    /**
+     * @brief Also accumulate the stress tensors at the triangle centers of the surfaces
+     * (see {@link StepResult.surfaceStress})
+     * @default false
+     */
+    setSurfaceStress(b: boolean): void
+
+    /**
+     * @brief Move the observation points with the displacement after each step
+     * @default true
+     */
+    setDeformObservations(b: boolean): void
+
+    /**
+     * @brief Set the solver used for all the steps
+     * @see {@link Forward.select}
+     */
+    setSolver(name: string, tol: number, maxIter: number): void
+
+    /**
+     * @brief Notified after each (sub-)step with its increments
+     */
+    onStep(cb: (step: StepResult, i: number) => void): void
+
+    /**
+     * @brief Run all the steps of the load path
+     */
+    run(): SimulationHistory
+}
@@ -1,4 +1,5 @@
 import { FlatVectors, Model, Vector, Vectorb, Vectord } from "."
+import { Dataset, MisfitReport } from "./dataset"
 
 /**
  * Allow to do slip inversion using multiple type of dataset.
@@ -17,7 +18,8 @@ import { FlatVectors, Model, Vector, Vectorb, Vectord } from "."
  * solver ([[Forward]] with '`seidel`' parameter), except that we use a **Block Least-Squares**
  * formulation, with an optimized building process for the underlaying matrices and vectors.
  * 
- * @todo Separate the notion of data (gps, insar, ...) from the solver itself.
+ * The data are provided as [[Dataset]]s (GPS, InSAR, tiltmeters, strainmeters, leveling...),
+ * which are independent from the solver.
  * 
  * @example
  * ```javascript
@@ -28,13 +30,20 @@ import { FlatVectors, Model, Vector, Vectorb, Vectord } from "."
  * 
  * const insar     = [0,0,0, 1,0,0, 2,1,0, 3,2, 0 ...] // point position
  * const dataInsar = [0.12, 0,21, 0,22, 0.65 ...]  // insar data, one per point
+ * const losInsar  = [...] // LOS unit vector, one per point
  * // The same applies for Gps
  * 
- * const inv = new arch.SlipInversion
- * inv.addInsar(insar, dataInsar, satLOS, 1)
- * inv.addGps(gps, dataGps, [true,true,true], 3) // gps is 3x more important than insar
+ * const d1 = new arch.InsarDataset(insar, dataInsar, losInsar, sigmaInsar)
+ * const d2 = new arch.GpsDataset(gps, dataGps, [true,true,true], sigmaGps)
+ * d2.setWeight(3) // gps is 3x more important than insar
+ * 
+ * const inv = new arch.SlipInversion(model)
+ * inv.addDataset(d1)
+ * inv.addDataset(d2)
  * inv.setSmooth(0.85)
  * const burgers = inv.run(true, true)
+ * 
+ * inv.report().forEach( r => console.log(`${r.name}: rms=${r.rms}, VR=${r.varianceReduction}%`) )
  * ```
  * 
  * <br>
@@ -69,7 +78,14 @@ export class SlipInversion {
     constructor(model: Model)
 
     /**
-     * @brief Add a new Gps dataset to constrain the slip inversion
+     * @brief Add a dataset to constrain the slip inversion. The weight of the
+     * dataset is given by [[Dataset.weight]].
+     */
+    addDataset(dataset: Dataset): void
+
+    /**
+     * @brief Add a new Gps dataset to constrain the slip inversion.
+     * This is a shortcut for `addDataset(new GpsDataset(position, gps, valid))`.
      * @param {FlatVectors} position The position of the data points in 3D. The size
      * of the vector should equal to the number of points time three.
      * @param {Vectord} data The data, one for each point. The size of the vector should
@@ -81,6 +97,8 @@ export class SlipInversion {
 
     /**
      * @brief Add a new InSAR dataset to constrain the slip inversion.
+     * This is a shortcut for `addDataset(new InsarDataset(position, insar, satellite))`, i.e.,
+     * with the same line of sight for all points.
      * @warning Be careful that the InSAR dataset is not tested yet
      * @param {FlatVectors} position The position of the data poinrs in 3D
      * @param {Vectord} insar The data, one for each point
@@ -95,6 +113,12 @@ export class SlipInversion {
      */
     run(local: boolean, atTriangles: boolean): Array<Vectord>
 
+    /**
+     * @brief Get the misfit of each dataset for the last [[run]], in the order the
+     * datasets were added.
+     */
+    report(): Array<MisfitReport>
+
     /**
      * @brief The smoothing parameter for Thikonov. This correspond to the link between a triangle
      * and its neighbors. The burger vector for a considered triangle will be dependent on its
@@ -1,4 +1,4 @@
-import { FlatTensors, FlatVectors, Model, Tensor, Vector } from "."
+import { FlatTensors, FlatVectors, Model, NumericArray, Tensor, TypedFlatArray, Vector } from "."
 
 /**
  * Function callback for the `onProgress` method on [[Solution]]
@@ -17,6 +17,52 @@ import { FlatTensors, FlatVectors, Model, Tensor, Vector } from "."
 export type SolutionProgressCB = (position: number, value: number) => void
 
 
+/**
+ * The fields computed at observation points by a [[Solution]]
+ * @category Solvers
+ */
+export type SolutionField = 'displ' | 'strain' | 'stress'
+
+/**
+ * Options for the typed array version of [[Solution.displ]], [[Solution.strain]] and [[Solution.stress]]
+ * (see [[Example_typed_arrays]])
+ * @category Solvers
+ */
+export interface FieldOptions {
+    /**
+     * @brief A caller-provided buffer where to write the result, of size `3*n` for the displacement
+     * and `6*n` for the strain and stress, `n` being the number of observation points. It is
+     * returned by the method. Reusing the same buffer between calls avoids any allocation.
+     */
+    out?: TypedFlatArray
+
+    /**
+     * @brief If true and if no `out` buffer is provided, the returned `Float64Array` is a view into the
+     * memory of the library instead of a copy. With the `wasm` backend, the view is only valid until the next
+     * call to **Arch** (the memory may grow and detach the view): copy it (`view.slice()`) if you need to
+     * keep it. Ignored by the `native` backend, for which the result is never copied.
+     * @default false
+     */
+    view?: boolean
+
+    /**
+     * @brief The number of observation points processed at once. A smaller value limits the memory
+     * used by the library for very large point sets.
+     * @default 65536
+     */
+    chunkSize?: number
+}
+
+/**
+ * Function callback for [[Solution.forEachChunk]]
+ * @param values The computed field for the points of this chunk (3 or 6 components per point). It
+ * is a buffer reused for all the chunks, only valid during the call
+ * @param first The index of the first point of the chunk
+ * @param count The number of points in the chunk
+ * @category Solvers
+ */
+export type ChunkCB = (values: Float64Array, first: number, count: number) => void
+
 /**
  * The object which is returned after calling [[Forward.run]], or created given a [[Model]] and
  * the computed Burger's vectors on the discontinuities making the [[Model]].
@@ -38,6 +84,11 @@ export type SolutionProgressCB = (position: number, value: number) => void
  * @category Solvers
  */
 export class Solution {
+    /**
+     * @brief Create the solution of a solved model (see [[Forward.run]])
+     */
+    constructor(model: Model)
+
     /**
      * @brief Set to true if you want the return arrays to be [flat](https://developer.mozilla.org/fr/docs/Web/JavaScript/Reference/Objets_globaux/Array/flat).
      */
@@ -56,6 +107,7 @@ export class Solution {
      * of each triangle. Typically, it is used to shift by a small amount along the normal,
      * the center of the triangle in order to avoid numerical instabilities.
      * Depending on the model sizes, it can be judicious to increase or decrease its value.
+     * To detect and move observation points which are too close to the triangles, see [[SpatialIndex.nearPoints]].
      * 
      * More info can be found in the following paper:
      * ___
@@ -133,6 +185,7 @@ export class Solution {
      * @brief Get the residual tractions after computing the Burger's vectors.
      * For a model without any inequality constraints, the residual should be zero. However, 
      * for example for frictional model, residual tractions are different from zero.
+     * The tractions are in local coordinate system, in the convention of the model (see [[Model.setConvention]]).
      * @returns {Array<FlatVectors>} An array of flat vectors. Each entry corresponds to the residual
      * traction vectors of a [[Surface]].
      * @warning The returned array comprises all [[Surface]]. This is why the return type is an array
@@ -195,6 +248,18 @@ export class Solution {
      */
     displ(position: FlatVectors): FlatVectors
 
+    /**
+     * @brief Compute the displacement field at points given as a typed array, without copying
+     * nor boxing the values (see [[Example_typed_arrays]]).
+     * @example
+     * ```js
+     * const position = new Float64Array(3*n) // filled by the caller
+     * const displ    = new Float64Array(3*n)
+     * solution.displ(position, { out: displ })
+     * ```
+     */
+    displ(position: NumericArray, options: FieldOptions): Float64Array
+
     /**
      * @brief Compute the strain field at points given in the flat array `position`.
      * @returns The array of strains in flat array
@@ -202,6 +267,12 @@ export class Solution {
      */
     strain(position: FlatVectors): FlatTensors
 
+    /**
+     * @brief Compute the strain field at points given as a typed array, without copying
+     * nor boxing the values (see [[displ]])
+     */
+    strain(position: NumericArray, options: FieldOptions): Float64Array
+
     /**
      * @brief Compute the stress field at points given in the flat array `position`.
      * @returns The array of strains in flat array
@@ -209,6 +280,39 @@ export class Solution {
      */
     stress(position: FlatVectors): FlatTensors
 
+    /**
+     * @brief Compute the stress field at points given as a typed array, without copying
+     * nor boxing the values (see [[displ]])
+     * @example
+     * ```js
+     * // A view into the wasm memory, valid until the next call to Arch,
+     * // so it is copied before being passed to another Arch function
+     * const stress = solution.stress(grid, { view: true }).slice()
+     * const s1 = arch.principalValues(stress)
+     * ```
+     */
+    stress(position: NumericArray, options: FieldOptions): Float64Array
+
+    /**
+     * @brief Compute a field over a large set of observation points, chunk by chunk, without storing
+     * the whole result. This is the way to stream the results (e.g., to a file or to a GPU buffer) when
+     * they do not fit in memory.
+     * @param field The field to compute
+     * @param position The observation points
+     * @param cb Called for each chunk, in order
+     * @param chunkSize The number of points per chunk
+     * @default chunkSize 65536
+     * @example
+     * ```js
+     * const fd = fs.openSync('stress.bin', 'w')
+     * solution.forEachChunk('stress', grid, (values, first, count) => {
+     *     fs.writeSync(fd, values.subarray(0, 6*count))
+     * })
+     * fs.closeSync(fd)
+     * ```
+     */
+    forEachChunk(field: SolutionField, position: NumericArray, cb: ChunkCB, chunkSize?: number): void
+
     /**
      * @brief Get the displacement at one observation point
      */
@@ -7,7 +7,7 @@ import { UserRemote } from './remote'
  * 1. Forward modeling ([[Forward]])
  * 2. Slip inversion ([[SlipInversion]]) using any types of data
  * 3. Friction and Cohesion inversion ([[FrictionInversion]]) using any types of data
- * 4. Far field stress inversion (coming very soon...) using any types of data. This part will be done in a separate JavaScript library directly
+ * 4. Far field stress inversion ([[StressInversion]]) using any types of data
  */
 
 
@@ -175,7 +175,7 @@ export class Forward {
 
     /**
      * Set the callback function to call to khnow if the user want to stop the
-     * computation.
+     * computation. See also [[ForwardRunner]] to cancel a run using an `AbortSignal`.
      * @param cb The callback to pass with signature `cb(): boolean`
      * @example
      * ```ts
@@ -228,7 +228,7 @@ export class Forward {
      * 
      * For instance, if you change the geometry of a surface (deformation,
      * translation, scale, rotation...), then as it is not detected, you will have to
-     * make sure to call `solver.dirty = true`.
+     * make sure to call `solver.dirty = true`. A [[Simulation]] detects these changes automatically.
      * @note The `solver.dirty = false` will never work.
      */
     setDirty(b: boolean)
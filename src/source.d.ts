@@ -0,0 +1,155 @@
+import { Model } from './model'
+import { Surface } from './surface'
+import { Tensor, Vector, Vectord } from './types'
+
+/**
+ * A fault plane given by its strike, dip and rake in degrees
+ * (Aki and Richards convention)
+ * @category Seismology
+ */
+export interface FaultPlane {
+    strike: number
+    dip: number
+    rake: number
+}
+
+/**
+ * The decomposition of a moment tensor into isotropic (ISO), double-couple (DC) and
+ * compensated linear vector dipole (CLVD) parts, in percent (the sum is 100)
+ * @category Seismology
+ */
+export interface MomentTensorDecomposition {
+    iso: number
+    dc: number
+    clvd: number
+}
+
+/**
+ * A principal axis of a moment tensor, given by its trend and plunge in degrees
+ * @category Seismology
+ */
+export interface PrincipalAxis {
+    value: number
+    trend: number
+    plunge: number
+}
+
+/**
+ * The source products of a surface (or a patch of triangles), as returned by {@link momentTensor}
+ * @category Seismology
+ */
+export interface MomentTensor {
+    /**
+     * @brief The seismic moment tensor `M = μ.Σ A.(b⊗n + n⊗b) + λ.Σ A.(b.n).I`, with `A` the
+     * area, `b` the Burger's vector in global coordinate system and `n` the normal of each triangle.
+     * It is given in the global coordinate system of the model as `[xx, xy, xz, yy, yz, zz]`
+     * (use {@link toUSE} for the seismological convention).
+     */
+    tensor: Tensor
+
+    /**
+     * @brief The scalar seismic moment M0 (same as {@link Surface.seismicMoment} for a pure
+     * double couple)
+     */
+    M0: number
+
+    /**
+     * @brief The moment magnitude `Mw = 2/3.(log10(M0) - 9.1)`, with M0 in N.m
+     */
+    Mw: number
+
+    decomposition: MomentTensorDecomposition
+
+    /**
+     * @brief The two nodal planes of the best double couple
+     */
+    planes: [FaultPlane, FaultPlane]
+
+    /**
+     * @brief The pressure (P), tension (T) and null (B) axes
+     */
+    axes: { P: PrincipalAxis, T: PrincipalAxis, B: PrincipalAxis }
+}
+
+/**
+ * @brief Compute the seismic moment tensor and the derived source products of a solved
+ * {@link Surface}, from the Burger's vectors, the normals and the areas of the triangles
+ * (see {@link Triangle.displInGlobal}, {@link Triangle.normal} and {@link Triangle.area}).
+ * The elastic parameters come from the material of the model.
+ *
+ * The model is expected to use the international system of units (meters, Pascal) for
+ * `Mw` to be meaningful.
+ * @param model The model providing the material
+ * @param surface The solved surface
+ * @param triangles The indices of the triangles to consider (i.e., a patch). If not provided,
+ * all the triangles of the surface are used.
+ * @example
+ * ```js
+ * solver.run()
+ *
+ * const mt = arch.momentTensor(model, fault)
+ * console.log(`Mw=${mt.Mw.toFixed(2)}, DC=${mt.decomposition.dc.toFixed(0)}%`)
+ * console.log('nodal planes', mt.planes)
+ * ```
+ * @category Seismology
+ */
+export function momentTensor(model: Model, surface: Surface, triangles?: Vectord): MomentTensor
+
+/**
+ * @brief Compute the moment tensor of each triangle of a solved {@link Surface}
+ * @see {@link momentTensor}
+ * @category Seismology
+ */
+export function triangleMomentTensors(model: Model, surface: Surface): Array<MomentTensor>
+
+/**
+ * @brief Convert a moment tensor from the global coordinate system of **Arch** (x=East,
+ * y=North, z=Up) to the seismological USE convention (r=Up, t=South, p=East)
+ * @returns The tensor as `[Mrr, Mtt, Mpp, Mrt, Mrp, Mtp]`
+ * @category Seismology
+ */
+export function toUSE(tensor: Tensor): [number, number, number, number, number, number]
+
+/**
+ * The data to draw a beachball, as returned by {@link beachball}
+ * @category Seismology
+ */
+export interface Beachball {
+    /**
+     * @brief The polygons (in the unit disc, lower hemisphere projection) of the compressional
+     * quadrants, as flat arrays `[x, y ... x, y]`
+     */
+    compressional: Array<Vectord>
+
+    /**
+     * @brief The nodal lines of the best double couple, as flat arrays `[x, y ... x, y]`
+     */
+    nodalLines: [Vectord, Vectord]
+
+    /**
+     * @brief The positions in the unit disc of the P, T and B axes
+     */
+    axes: { P: [number, number], T: [number, number], B: [number, number] }
+}
+
+/**
+ * @brief Compute the data to render a beachball of a moment tensor
+ * @param mt The moment tensor
+ * @param options
+ * - `projection`: the stereographic projection (`schmidt` for equal area, `wulff` for equal angle)
+ * - `resolution`: the number of points along the nodal lines
+ * @example
+ * ```js
+ * const ball = arch.beachball( arch.momentTensor(model, fault) )
+ * ball.compressional.forEach( polygon => drawPolygon(ctx, polygon, 'black') )
+ * ```
+ * @category Seismology
+ */
+export function beachball(mt: MomentTensor, options?: { projection?: 'schmidt' | 'wulff', resolution?: number }): Beachball
+
+/**
+ * @brief Get the unit slip vector of a fault plane (Aki and Richards convention)
+ * in the global coordinate system of **Arch**
+ * @category Seismology
+ */
+export function slipVector(plane: FaultPlane): Vector
@@ -0,0 +1,157 @@
+import { Model } from './model'
+import { Surface } from './surface'
+import { FlatVectors, Vector, Vectord } from './types'
+
+/**
+ * The closest triangle to a point, as returned by {@link SpatialIndex.nearest}
+ * @category Spatial index
+ */
+export interface NearestTriangle {
+    /**
+     * @brief The index of the surface in the model (or in the array given to the constructor)
+     */
+    surface: number
+
+    /**
+     * @brief The index of the triangle in the surface
+     */
+    triangle: number
+
+    /**
+     * @brief The closest point on the triangle
+     */
+    point: Vector
+
+    /**
+     * @brief The distance, signed according to the normal of the triangle (positive on the side
+     * pointed by the normal)
+     */
+    distance: number
+}
+
+/**
+ * The first triangle hit by a ray, as returned by {@link SpatialIndex.raycast}
+ * @category Spatial index
+ */
+export interface RayHit {
+    surface: number
+    triangle: number
+
+    /**
+     * @brief The intersection point
+     */
+    point: Vector
+
+    /**
+     * @brief The distance from the origin of the ray
+     */
+    distance: number
+}
+
+/**
+ * The observation points close to the surfaces, as returned by {@link SpatialIndex.nearPoints}
+ * @category Spatial index
+ */
+export interface NearPoints {
+    /**
+     * @brief The indices of the points closer than the tolerance
+     */
+    indices: Vectord
+
+    /**
+     * @brief The signed distance of each of these points (see {@link NearestTriangle.distance})
+     */
+    distance: Vectord
+
+    /**
+     * @brief A copy of all the points, where the near points are moved along the normal of their
+     * closest triangle, on their side, at a distance equal to the tolerance
+     */
+    offset: FlatVectors
+}
+
+/**
+ * A bounding volume hierarchy (BVH) over all the triangles of a {@link Model} (or of a set of
+ * {@link Surface}s), for fast geometric queries.
+ *
+ * The displacement, strain and stress computed by {@link Solution} at points on (or very close to)
+ * a triangle are singular or meaningless. This index allows to detect these points and to move them
+ * before calling {@link Solution.stress}.
+ * @example
+ * ```js
+ * const index = new arch.SpatialIndex(model)
+ *
+ * // Move the observation points closer than 1e-3 to a surface
+ * const near = index.nearPoints(points, 1e-3)
+ * console.log(`${near.indices.length} points moved`)
+ * const stress = solution.stress(near.offset)
+ *
+ * // Which side of the fault?
+ * const side = index.side([10, 2, -5]) // 1, -1 or 0
+ * ```
+ * @category Spatial index
+ */
+export class SpatialIndex {
+    /**
+     * @brief Build the index. If the geometry of a surface changes
+     * (see {@link Surface.changeCoordinates}), call {@link update}.
+     */
+    constructor(model: Model)
+    constructor(surfaces: Array<Surface>)
+
+    /**
+     * @brief Rebuild the index after a change of geometry
+     */
+    update(): void
+
+    /**
+     * @brief Get the closest triangle to a point
+     * @param maxDistance Only search within this distance (default Infinity). If no triangle is
+     * found, undefined is returned.
+     */
+    nearest(point: Vector, maxDistance?: number): NearestTriangle | undefined
+
+    /**
+     * @brief Get the signed distance of points to the closest triangle
+     * (see {@link NearestTriangle.distance})
+     */
+    signedDistance(position: FlatVectors): Vectord
+
+    /**
+     * @brief Get the side of a point according to the closest triangle: 1 on the side of
+     * the normal, -1 on the other side, 0 on the triangle (within `tolerance`)
+     * @default tolerance 1e-9
+     */
+    side(point: Vector, tolerance?: number): number
+
+    /**
+     * @brief Get the first triangle hit by a ray, undefined if none
+     * @param origin The origin of the ray
+     * @param direction The direction of the ray (not necessarily normalized)
+     */
+    raycast(origin: Vector, direction: Vector): RayHit | undefined
+
+    /**
+     * @brief Get all the triangles intersected by a segment
+     */
+    intersectSegment(p1: Vector, p2: Vector): Array<RayHit>
+
+    /**
+     * @brief Get all the triangles whose bounding box intersects a box
+     * @param bounds `[minX, minY, minZ, maxX, maxY, maxZ]` (as {@link Model.bounds})
+     */
+    query(bounds: Vectord): Array<{ surface: number, triangle: number }>
+
+    /**
+     * @brief Detect the observation points closer than a tolerance to a triangle, and provide an
+     * offset copy of the points that can be safely used with {@link Solution.displ},
+     * {@link Solution.strain} and {@link Solution.stress}.
+     */
+    nearPoints(position: FlatVectors, tolerance: number): NearPoints
+
+    /**
+     * @brief Project points on the closest triangles (e.g., to project data onto surfaces)
+     * @returns The projected points and, for each point, the surface and triangle indices
+     */
+    project(position: FlatVectors): { position: FlatVectors, surface: Vectord, triangle: Vectord }
+}
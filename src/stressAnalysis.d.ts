@@ -0,0 +1,148 @@
+import { FlatTensors, FlatVectors, Vector, Vectord } from './types'
+
+/**
+ * The principal directions of a set of tensors, as returned by {@link principalDirections}.
+ * `v1`, `v2` and `v3` are the unit eigen vectors associated to the eigen values `S1 >= S2 >= S3`
+ * returned by {@link principalValues}.
+ * @category Stress analysis
+ */
+export interface PrincipalDirections {
+    v1: FlatVectors
+    v2: FlatVectors
+    v3: FlatVectors
+}
+
+/**
+ * The invariants of a set of tensors, as returned by {@link invariants}
+ * @category Stress analysis
+ */
+export interface Invariants {
+    /**
+     * @brief The first invariant of the tensor (the trace)
+     */
+    I1: Vectord
+
+    /**
+     * @brief The second invariant of the deviatoric tensor
+     */
+    J2: Vectord
+
+    /**
+     * @brief The third invariant of the deviatoric tensor
+     */
+    J3: Vectord
+}
+
+/**
+ * The Andersonian characterization of a set of stress tensors, as returned by {@link andersonianRegime}
+ * @category Stress analysis
+ */
+export interface AndersonianCharacterization {
+    /**
+     * @brief The stress ratio in [0, 1] (see {@link AndersonianRemote.R})
+     */
+    R: Vectord
+
+    /**
+     * @brief The stress ratio and regime in [0, 3] (see {@link AndersonianRemote.Rb})
+     */
+    Rb: Vectord
+
+    /**
+     * @brief The regime, either `normal`, `strike-slip` or `reverse` (see {@link AndersonianRemote.regime})
+     */
+    regime: Array<string>
+
+    /**
+     * @brief The orientation of SH in degrees, according to the North and clock-wise, in [0, 180]
+     */
+    theta: Vectord
+}
+
+/**
+ * @brief Compute the principal values (eigen values) of a set of symmetric tensors.
+ *
+ * As for the rest of **Arch**, the engineer convention is used (see {@link Conventions}):
+ * the returned values are sorted such that `S1 >= S2 >= S3`, so that for a stress tensor `S1`
+ * is the least compressive principal stress and `S3` the most compressive one.
+ * @param tensors The tensors, e.g., from {@link Solution.stress} or {@link Solution.strain}
+ * @returns A flat array `[S1, S2, S3 ... S1, S2, S3]`, one {@link Vector} per tensor
+ * @example
+ * ```js
+ * const stress = solution.stress(positions)
+ * const values = arch.principalValues(stress)
+ *
+ * new arch.VectorIt(values).forEach( s => console.log(`S1=${s[0]}, S2=${s[1]}, S3=${s[2]}`) )
+ * ```
+ * @category Stress analysis
+ */
+export function principalValues(tensors: FlatTensors): FlatVectors
+
+/**
+ * @brief Compute the principal directions (eigen vectors) of a set of symmetric tensors.
+ * The directions are sorted as the values returned by {@link principalValues}. Since an
+ * eigen vector is defined up to its sign, the returned vectors always have a positive
+ * z-component (or a positive x-component, then a positive y-component, when horizontal).
+ * @category Stress analysis
+ */
+export function principalDirections(tensors: FlatTensors): PrincipalDirections
+
+/**
+ * @brief Compute the invariants I1, J2 and J3 of a set of symmetric tensors
+ * @category Stress analysis
+ */
+export function invariants(tensors: FlatTensors): Invariants
+
+/**
+ * @brief Compute the von Mises equivalent stress `sqrt(3.J2)` of a set of stress tensors
+ * @category Stress analysis
+ */
+export function vonMises(tensors: FlatTensors): Vectord
+
+/**
+ * @brief Compute the maximum shear stress `(S1 - S3)/2` of a set of stress tensors
+ * @category Stress analysis
+ */
+export function maxShear(tensors: FlatTensors): Vectord
+
+/**
+ * @brief Compute the Lode parameter `(2.S2 - S1 - S3)/(S1 - S3)` in [-1, 1] of a set of
+ * stress tensors. Undefined (NaN) values are returned for isotropic tensors.
+ * @category Stress analysis
+ */
+export function lodeParameter(tensors: FlatTensors): Vectord
+
+/**
+ * @brief Characterize a set of stress tensors as if they were Andersonian, i.e., using
+ * the principal direction closest to the vertical as the vertical stress. The returned
+ * values are consistent with {@link AndersonianRemote.R}, {@link AndersonianRemote.Rb}
+ * and {@link AndersonianRemote.regime}.
+ * @example
+ * ```js
+ * const r = new arch.AndersonianRemote()
+ * r.setSh(-1); r.setSH(-2); r.setSv(-3); r.setTheta(30)
+ *
+ * const c = arch.andersonianRegime( r.valueAt([0,0,-1]) )
+ * // c.Rb[0] === r.Rb(), c.regime[0] === r.regime(), c.theta[0] === 30
+ * ```
+ * @category Stress analysis
+ */
+export function andersonianRegime(tensors: FlatTensors): AndersonianCharacterization
+
+/**
+ * @brief Rotate a set of symmetric tensors into another frame, i.e., compute `R.S.R^t`
+ * where the rows of `R` are the axis of the frame.
+ * @param tensors The tensors to rotate
+ * @param frame The three orthonormal axis of the new frame, expressed in the global
+ * coordinate system. A single frame for all the tensors or one frame per tensor (as a flat
+ * array of 9 components per tensor).
+ * @example
+ * ```js
+ * // Express the stress in the local frame of the first triangle (normal, strike, dip)
+ * const t = ...
+ * const frame = [t.toGlobal([1,0,0]), t.toGlobal([0,1,0]), t.toGlobal([0,0,1])]
+ * const local = arch.rotateTensors(stress, frame)
+ * ```
+ * @category Stress analysis
+ */
+export function rotateTensors(tensors: FlatTensors, frame: [Vector, Vector, Vector] | Vectord): FlatTensors
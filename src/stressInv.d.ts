@@ -0,0 +1,220 @@
+import { AndersonianRemote } from './remote'
+import { Model } from './model'
+import { Dataset, MisfitReport } from './dataset'
+import { Surface } from './surface'
+import { FlatVectors, Vector, Vectorb, Vectord } from './types'
+
+/**
+ * The cost (misfit) of the stress inversion over the (theta, Rb) domain, ready to be
+ * plotted as a 2D map.
+ * @category Solvers
+ */
+export interface CostLandscape {
+    /**
+     * @brief The sampled orientations of SH in degrees, in [0, 180]
+     */
+    theta: Vectord
+
+    /**
+     * @brief The sampled stress ratios in [0, 3] (see {@link AndersonianRemote.Rb})
+     */
+    Rb: Vectord
+
+    /**
+     * @brief The cost for each couple (theta, Rb), with theta varying first, i.e.,
+     * `cost[i + j*theta.length]` is the cost for `theta[i]` and `Rb[j]`. The cost is in [0, 1],
+     * 0 being a perfect fit.
+     */
+    cost: Vectord
+}
+
+/**
+ * The result of {@link StressInversion.run}
+ * @category Solvers
+ */
+export interface StressInversionResult {
+    /**
+     * @brief The best orientation of SH in degrees, according to the North and clock-wise
+     */
+    theta: number
+
+    /**
+     * @brief The best stress ratio and regime in [0, 3] (see {@link AndersonianRemote.Rb})
+     */
+    Rb: number
+
+    /**
+     * @brief The best stress ratio in [0, 1] (see {@link AndersonianRemote.R})
+     */
+    R: number
+
+    /**
+     * @brief The stress regime, either `normal`, `strike-slip` or `reverse`
+     */
+    regime: string
+
+    /**
+     * @brief The magnitude of the vertical stress gradient. Only recovered when displacement
+     * data (GPS, InSAR) are provided, since fracture data only constrain the orientations
+     * and the stress ratio.
+     */
+    Sv?: number
+
+    /**
+     * @brief The recovered pressure in each surface for which {@link StressInversion.setPressure}
+     * was called, in the same order
+     */
+    pressure?: Array<{ surface: Surface, gradient: number, shift: number }>
+
+    /**
+     * @brief The cost of the best solution in [0, 1]
+     */
+    cost: number
+
+    /**
+     * @brief The cost over the whole (theta, Rb) domain
+     */
+    landscape: CostLandscape
+
+    /**
+     * @brief The uncertainty (one standard deviation) of theta (in degrees) and Rb, estimated
+     * from the curvature of the cost around the best solution
+     */
+    uncertainty: { theta: number, Rb: number }
+
+    /**
+     * @brief The recovered far field stress, ready to be added to a {@link Model}
+     */
+    remote: AndersonianRemote
+
+    /**
+     * @brief The misfit of each dataset added with {@link StressInversion.addDataset}
+     * (or the shortcuts), for the best solution
+     */
+    report: Array<MisfitReport>
+}
+
+/**
+ * Allows to recover the far field stress (and optionally the pressure in cavities) using
+ * multiple types of data. The far field stress is expressed as an {@link AndersonianRemote},
+ * i.e., using the orientation `theta` of SH and the stress ratio `Rb`.
+ *
+ * This is based on
+ * ___
+ * [Maerten, L., Maerten, F., Lejri, M., & Gillespie, P. (2016). Geomechanical paleostress inversion using fracture data. Journal of structural Geology, 89, 197-213.](https://www.sciencedirect.com/science/article/abs/pii/S0191814116300839)
+ * ___
+ * [Maerten, F., Madden, E. H., Pollard, D. D., & Maerten, L. (2016). Incorporating fault mechanics into inversions of aftershock data for the regional remote stress, with application to the 1992 Landers, California earthquake. Tectonophysics, 674, 52-64.](https://www.sciencedirect.com/science/article/abs/pii/S0040195116000731)
+ * ___
+ * and uses the principle of superposition (see {@link SuperpositionBasis}), so that the model
+ * is solved only once for each unit simulation, whatever the number of sampled (theta, Rb).
+ *
+ * @example
+ * ```javascript
+ * const model = new arch.Model()
+ * // --> add surface discontinuities
+ * // --> setup surface boundary conditions and values
+ *
+ * const inv = new arch.StressInversion(model)
+ * inv.addJoints(jointPositions, jointNormals, 1)
+ * inv.addStriations(faultPositions, faultNormals, striations, 1)
+ * inv.addGps(gpsPositions, gps, [true, true, true], 2)
+ * inv.setThetaRange(0, 180, 90)
+ * inv.setRbRange(0, 3, 60)
+ *
+ * const result = inv.run()
+ * console.log(`theta=${result.theta}, Rb=${result.Rb} (${result.regime}), cost=${result.cost}`)
+ *
+ * model.addRemote(result.remote)
+ * ```
+ *
+ * @category Solvers
+ */
+export class StressInversion {
+    constructor(model: Model)
+
+    /**
+     * @brief Add a displacement or strain dataset (see [[Dataset]]). The weight of the
+     * dataset is given by [[Dataset.weight]].
+     */
+    addDataset(dataset: Dataset): void
+
+    /**
+     * @brief Add a GPS dataset. This is a shortcut for [[addDataset]] with a [[GpsDataset]].
+     * @param position The position of the data points in 3D
+     * @param gps The data, one for each point and valid axis
+     * @param valid The validity of each axis
+     * @param weight The weight of this dataset
+     * @see {@link SlipInversion.addGps}
+     */
+    addGps(position: FlatVectors, gps: Vectord, valid: Vectorb, weight: number): void
+
+    /**
+     * @brief Add an InSAR dataset. This is a shortcut for [[addDataset]] with an [[InsarDataset]].
+     * @param position The position of the data points in 3D
+     * @param insar The data, one for each point
+     * @param satellite The line of sight of the satellite
+     * @param weight The weight of this dataset
+     * @see {@link SlipInversion.addInsar}
+     */
+    addInsar(position: FlatVectors, insar: Vectord, satellite: Vector, weight: number): void
+
+    /**
+     * @brief Add joints (or veins, dykes...). Their normals are expected to be parallel to the
+     * least compressive principal stress.
+     * @param position The position of the measures
+     * @param normals The normals of the joint planes, one for each position
+     * @param weight The weight of this dataset
+     */
+    addJoints(position: FlatVectors, normals: FlatVectors, weight: number): void
+
+    /**
+     * @brief Add stylolites. Their normals are expected to be parallel to the most
+     * compressive principal stress.
+     * @param position The position of the measures
+     * @param normals The normals of the stylolite planes, one for each position
+     * @param weight The weight of this dataset
+     */
+    addStylolites(position: FlatVectors, normals: FlatVectors, weight: number): void
+
+    /**
+     * @brief Add fault striations. The striations are expected to be parallel to the
+     * resolved shear traction on the fault planes.
+     * @param position The position of the measures
+     * @param normals The normals of the fault planes, one for each position
+     * @param striations The slip directions, one for each position
+     * @param weight The weight of this dataset
+     */
+    addStriations(position: FlatVectors, normals: FlatVectors, striations: FlatVectors, weight: number): void
+
+    /**
+     * @brief Also recover the pressure (gradient and shift) in a surface representing a
+     * cavity (e.g., a magma chamber or a dyke). The normal axis of the surface must be `free`.
+     * @param surface The surface
+     * @param b True to recover the pressure
+     * @default false
+     */
+    setPressure(surface: Surface, b: boolean): void
+
+    /**
+     * @brief The sampling of the orientation of SH in degrees
+     * @default min = 0, max = 180, n = 90
+     */
+    setThetaRange(min: number, max: number, n: number): void
+
+    /**
+     * @brief The sampling of the stress ratio Rb
+     * @default min = 0, max = 3, n = 60
+     */
+    setRbRange(min: number, max: number, n: number): void
+
+    /**
+     * @brief Notification of the progress of the inversion
+     * @param cb Signature is `cb(percent: number): void`
+     */
+    onProgress(cb: (percent: number) => void): void
+
+    /**
+     * @brief Run the stress inversion based on (i) the provided model and (ii) the datasets
+     */
+    run(): StressInversionResult
+}
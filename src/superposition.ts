@@ -0,0 +1,281 @@
+import { FlatTensors, FlatVectors, TypedFlatArray, Vectord } from './types'
+
+/**
+ * The computed unit solutions of a {@link SuperpositionBasis}. It is JSON compatible
+ * and can be saved, then used by {@link Superposition} without **Arch**.
+ * The arrays are `Float64Array` when decoded with the `typed` option of {@link decodeSuperposition}.
+ * @category Superposition
+ */
+export interface SuperpositionData {
+    format: 'arch-superposition'
+    version: number
+
+    /**
+     * @brief The names of the components, in the order of the `alpha` vector
+     */
+    names: Array<string>
+
+    /**
+     * @brief The observation points
+     */
+    position: FlatVectors | Float64Array
+
+    /**
+     * @brief The unit displacement fields at observation points, one per component
+     */
+    displ: Array<FlatVectors | Float64Array>
+
+    /**
+     * @brief The unit stress fields at observation points, one per component
+     */
+    stress: Array<FlatTensors | Float64Array>
+
+    /**
+     * @brief The unit Burger's vectors (local, at triangles), one per component,
+     * and for each component one per surface
+     */
+    burgers: Array<Array<FlatVectors | Float64Array>>
+}
+
+/**
+ * Evaluate the displacement, stress and Burger's vectors for any linear combination of
+ * the unit solutions computed by {@link SuperpositionBasis}. This class is written in
+ * TypeScript only and does not require **Arch** to be loaded.
+ * @example
+ * ```js
+ * const { Superposition } = require('@youwol/arch-doc')
+ *
+ * const data = JSON.parse( fs.readFileSync('basis.json', 'utf8') )
+ * const sup  = new Superposition(data)
+ *
+ * //             xx   xy   xz   yy    yz   zz   rho pe
+ * const alpha = [72,  2,   11,  110,  100, 1,   5,  3 ]
+ *
+ * const displ   = sup.displ(alpha)
+ * const stress  = sup.stress(alpha)
+ * const burgers = sup.burgers(alpha) // one entry per surface
+ * ```
+ * @category Superposition
+ */
+export class Superposition {
+    private data: SuperpositionData
+
+    /**
+     * @throws If the data are not a {@link SuperpositionData} or if the sizes of the fields do not match
+     */
+    constructor(data: SuperpositionData) {
+        if (data.format !== 'arch-superposition') {
+            throw new Error(`Expected the format "arch-superposition", got "${data.format}"`)
+        }
+        const m = data.names.length
+        const n = data.position.length / 3
+        if (data.displ.length !== m || data.stress.length !== m || data.burgers.length !== m) {
+            throw new Error(`Expected ${m} unit solutions for the displacement, the stress and the Burger's vectors`)
+        }
+        data.displ.forEach((d, k) => {
+            if (d.length !== 3 * n || data.stress[k].length !== 6 * n) {
+                throw new Error(`Component ${data.names[k]}: the fields do not match the ${n} observation points`)
+            }
+            data.burgers[k].forEach((b, s) => {
+                if (b.length !== data.burgers[0][s].length) {
+                    throw new Error(`Component ${data.names[k]}: wrong number of Burger's vectors for surface ${s}`)
+                }
+            })
+        })
+        this.data = data
+    }
+
+    /**
+     * @brief Get the number of components, i.e., the expected length of `alpha`
+     */
+    nbComponents(): number {
+        return this.data.names.length
+    }
+
+    /**
+     * @brief Get the number of observation points
+     */
+    nbPoints(): number {
+        return this.data.position.length / 3
+    }
+
+    /**
+     * @brief The displacement at observation points for the combination `alpha`
+     */
+    displ(alpha: Vectord): FlatVectors
+
+    /**
+     * @brief Same as above, written in the caller-provided buffer `out` (of size `3*n`), which
+     * is returned. Reusing the same buffer makes realtime updates free of allocation
+     * @example
+     * ```js
+     * const sup = new Superposition( decodeSuperposition(buffer, { typed: true }) )
+     * const displ = new Float64Array(sup.nbPoints()*3)
+     * slider.onChange( alpha => render( sup.displ(alpha, displ) ) )
+     * ```
+     */
+    displ<T extends TypedFlatArray>(alpha: Vectord, out: T): T
+
+    displ(alpha: Vectord, out?: TypedFlatArray): FlatVectors | TypedFlatArray {
+        return this.combine(alpha, this.data.displ, out)
+    }
+
+    /**
+     * @brief The stress at observation points for the combination `alpha`
+     */
+    stress(alpha: Vectord): FlatTensors
+
+    /**
+     * @brief Same as above, written in the caller-provided buffer `out` (of size `6*n`), which
+     * is returned
+     */
+    stress<T extends TypedFlatArray>(alpha: Vectord, out: T): T
+
+    stress(alpha: Vectord, out?: TypedFlatArray): FlatTensors | TypedFlatArray {
+        return this.combine(alpha, this.data.stress, out)
+    }
+
+    /**
+     * @brief The Burger's vectors (local, at triangles) for the combination `alpha`,
+     * one entry per surface
+     */
+    burgers(alpha: Vectord): Array<FlatVectors> {
+        this.check(alpha)
+        const nbSurfaces = this.data.burgers.length ? this.data.burgers[0].length : 0
+        const result: Array<FlatVectors> = []
+        for (let s = 0; s < nbSurfaces; ++s) {
+            result.push(this.combine(alpha, this.data.burgers.map(b => b[s])) as FlatVectors)
+        }
+        return result
+    }
+
+    private check(alpha: Vectord) {
+        if (alpha.length !== this.nbComponents()) {
+            throw new Error(`Expected ${this.nbComponents()} coefficients, got ${alpha.length}`)
+        }
+    }
+
+    private combine(alpha: Vectord, fields: Array<ArrayLike<number>>, out?: TypedFlatArray): FlatVectors | TypedFlatArray {
+        this.check(alpha)
+        const size = fields.length ? fields[0].length : 0
+        if (out !== undefined && out.length !== size) {
+            throw new Error(`The output buffer must be of size ${size}, got ${out.length}`)
+        }
+        const result: FlatVectors | TypedFlatArray = out !== undefined ? out : new Array<number>(size)
+        for (let i = 0; i < size; ++i) {
+            result[i] = 0
+        }
+        fields.forEach((field, k) => {
+            const a = alpha[k]
+            if (a !== 0) {
+                for (let i = 0; i < size; ++i) {
+                    result[i] += a * field[i]
+                }
+            }
+        })
+        return result
+    }
+}
+
+/**
+ * @brief Encode a {@link SuperpositionData} in a compact binary form: a small JSON header (the
+ * names and the sizes) followed by all the fields as `Float64Array`
+ * @example
+ * ```js
+ * const data = basis.compute()
+ * fs.writeFileSync('simulations.bin', Buffer.from(encodeSuperposition(data)))
+ * ```
+ * @category Superposition
+ */
+export function encodeSuperposition(data: SuperpositionData): ArrayBuffer {
+    const fields: Array<ArrayLike<number>> = [data.position]
+    data.names.forEach((_, k) => fields.push(data.displ[k], data.stress[k], ...data.burgers[k]))
+    const header: BinaryHeader = {
+        format: data.format,
+        version: data.version,
+        names: data.names,
+        nbPoints: data.position.length / 3,
+        nbTriangles: data.burgers.length ? data.burgers[0].map(b => b.length / 3) : []
+    }
+
+    const json = new TextEncoder().encode(JSON.stringify(header))
+    const offset = align(4 + json.length)
+    const size = fields.reduce((n, f) => n + f.length, 0)
+    const buffer = new ArrayBuffer(offset + 8 * size)
+    new DataView(buffer).setUint32(0, json.length, true)
+    new Uint8Array(buffer, 4, json.length).set(json)
+
+    const values = new Float64Array(buffer, offset, size)
+    let i = 0
+    fields.forEach(f => {
+        values.set(f, i)
+        i += f.length
+    })
+    return buffer
+}
+
+/**
+ * @brief Decode a {@link SuperpositionData} encoded by {@link encodeSuperposition}
+ * @param buffer The encoded data, e.g., the `Buffer` returned by `fs.readFileSync` in node.js
+ * @param options With `typed`, the arrays are `Float64Array` views on the buffer (no copy, unless the
+ * buffer is not aligned on 8 bytes), otherwise plain arrays
+ * @default options { typed: false }
+ * @example
+ * ```js
+ * const data = decodeSuperposition( fs.readFileSync('simulations.bin'), { typed: true } )
+ * ```
+ * @category Superposition
+ */
+export function decodeSuperposition(buffer: ArrayBuffer | ArrayBufferView, options: { typed: boolean } = { typed: false }): SuperpositionData {
+    let bytes = buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    if (bytes.byteOffset % 8 !== 0) {
+        bytes = bytes.slice()
+    }
+    if (bytes.length < 4) {
+        throw new Error('Invalid superposition buffer')
+    }
+    const length = new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true)
+    const header: BinaryHeader = JSON.parse(new TextDecoder().decode(bytes.subarray(4, 4 + length)))
+    if (header.format !== 'arch-superposition') {
+        throw new Error(`Expected the format "arch-superposition", got "${header.format}"`)
+    }
+
+    const offset = align(4 + length)
+    let i = 0
+    const next = (n: number): FlatVectors | Float64Array => {
+        const view = new Float64Array(bytes.buffer, bytes.byteOffset + offset + 8 * i, n)
+        i += n
+        return options.typed ? view : Array.from(view)
+    }
+
+    const n = header.nbPoints
+    const data: SuperpositionData = {
+        format: header.format,
+        version: header.version,
+        names: header.names,
+        position: next(3 * n),
+        displ: [],
+        stress: [],
+        burgers: []
+    }
+    header.names.forEach(() => {
+        data.displ.push(next(3 * n))
+        data.stress.push(next(6 * n))
+        data.burgers.push(header.nbTriangles.map(t => next(3 * t)))
+    })
+    return data
+}
+
+// ----------------------------------------------------------------------
+
+interface BinaryHeader {
+    format: 'arch-superposition'
+    version: number
+    names: Array<string>
+    nbPoints: number
+    nbTriangles: Array<number>
+}
+
+function align(n: number): number {
+    return Math.ceil(n / 8) * 8
+}
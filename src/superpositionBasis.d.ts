@@ -0,0 +1,129 @@
+import { Model } from './model'
+import { Surface } from './surface'
+import { SuperpositionData } from './superposition'
+import { FlatVectors } from './types'
+
+/**
+ * A component of the remote stress tensor `[xx, xy, xz, yy, yz, zz]`
+ * @category Superposition
+ */
+export type RemoteComponent = 'xx' | 'xy' | 'xz' | 'yy' | 'yz' | 'zz'
+
+/**
+ * How a unit remote component varies in space. With `constant`, the component is 1
+ * everywhere. With `gradient`, the component is `|z|` (i.e., a depth gradient).
+ * @category Superposition
+ */
+export type BasisVariation = 'constant' | 'gradient'
+
+/**
+ * Callback used by {@link SuperpositionBasis.addUser} to setup the model for a user-defined
+ * unit simulation.
+ * @param active True when the unit simulation of this component is computed. When false,
+ * the callback must reset the model so that this component has no effect (e.g., zero
+ * pressure).
+ * @category Superposition
+ */
+export type BasisSetupCB = (active: boolean) => void
+
+/**
+ * Declare and compute the unit simulations used by the principle of superposition
+ * (see {@link Example_superposition}).
+ * Each component of the basis is a unit simulation. All unit simulations are computed with
+ * the same {@link Forward} solver, so that the system matrix is built only once.
+ *
+ * The displacement, stress and Burger's vectors for any linear combination `alpha` of the
+ * components are then obtained instantly using {@link Superposition}.
+ * @example
+ * ```js
+ * const basis = new arch.SuperpositionBasis(model)
+ * basis.addRemotes('gradient')           // alpha[0..5]: xx, xy, xz, yy, yz, zz
+ * basis.addPressureGradient(chamber)     // alpha[6]
+ * basis.addPressureShift(chamber)        // alpha[7]
+ * basis.setObservations(obs)
+ * basis.setSolver('parallel', 1e-8, 200)
+ * basis.setNbCores(32)
+ * basis.onProgress( (i, name) => console.log(`=======> Doing simulation ${i} (${name})`) )
+ *
+ * const data = basis.compute()
+ * fs.writeFileSync('basis.json', JSON.stringify(data), 'utf8')
+ * ```
+ * @category Superposition
+ */
+export class SuperpositionBasis {
+    constructor(model: Model)
+
+    /**
+     * @brief Add one unit remote stress component
+     * @returns The index of this component in the `alpha` vector
+     */
+    addRemote(component: RemoteComponent, variation: BasisVariation): number
+
+    /**
+     * @brief Convenient method to add the 6 remote stress components in the order
+     * `[xx, xy, xz, yy, yz, zz]`
+     * @returns The index of the first added component in the `alpha` vector
+     */
+    addRemotes(variation: BasisVariation): number
+
+    /**
+     * @brief Add a unit pressure gradient in a surface, i.e., a traction `|z|` along the normal.
+     * The normal axis of the surface must be `free` (see {@link Surface.setBC}).
+     * @returns The index of this component in the `alpha` vector
+     */
+    addPressureGradient(surface: Surface): number
+
+    /**
+     * @brief Add a unit pressure shift in a surface, i.e., a constant traction of 1 along the normal.
+     * The normal axis of the surface must be `free` (see {@link Surface.setBC}).
+     * @returns The index of this component in the `alpha` vector
+     */
+    addPressureShift(surface: Surface): number
+
+    /**
+     * @brief Add a user-defined component. The callback has to setup the model for the unit
+     * simulation, e.g., by changing the boundary values of a surface.
+     * @example
+     * ```js
+     * basis.addUser('strike-slip', active => {
+     *     fault.setBC('strike', 'free', active ? 1 : 0)
+     * })
+     * ```
+     * @returns The index of this component in the `alpha` vector
+     */
+    addUser(name: string, cb: BasisSetupCB): number
+
+    /**
+     * @brief Get the names of the components, in the order of the `alpha` vector
+     */
+    names(): Array<string>
+
+    /**
+     * @brief Set the observation points where the displacement and stress are computed
+     */
+    setObservations(position: FlatVectors): void
+
+    /**
+     * @brief Set the solver used by the unit simulations
+     * @see {@link Forward.select}
+     */
+    setSolver(name: string, tol: number, maxIter: number): void
+
+    /**
+     * @brief Set the number of threads used for the solver and the post-process
+     * @default 1
+     */
+    setNbCores(n: number): void
+
+    /**
+     * @brief Notified before each unit simulation
+     * @param cb Signature is `cb(index: number, name: string): void`
+     */
+    onProgress(cb: (index: number, name: string) => void): void
+
+    /**
+     * @brief Compute all the unit simulations. The model is restored as it was
+     * before the call.
+     */
+    compute(): SuperpositionData
+}
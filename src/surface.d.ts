@@ -1,4 +1,4 @@
-import { FlatVectors, Vectord } from './types'
+import { FlatVectors, IndexArray, NumericArray, TypedFlatArray, Vectord } from './types'
 import { Constraint } from './constraint'
 import { Triangle } from './triangle'
 
@@ -15,7 +15,8 @@ import { Triangle } from './triangle'
  * 
  * <center><img style="width:60%; height:60%;" src="media://fault.jpg"></center>
  * 
- * If you want to switch from the **Okada** to **Poly3D** convention, you will have to use the {@link BurgerFilter} class.
+ * If you want to switch from the **Okada** to **Poly3D** convention, you will have to use the {@link BurgerFilter} class,
+ * a {@link ConventionConverter} or {@link Model.setConvention}.
  */
 export class Surface {
 
@@ -27,6 +28,7 @@ export class Surface {
      * Compute the seismic moment of this surface, i.e., `M0 = μ.S.Δu`, with μ the shear modulus, S the area
      * of the surface and Δu the mean displacement. The shear modulus is computed form the model Young's modulus
      * and the Poisson's ratio.
+     * For the full moment tensor, the moment magnitude and the focal mechanism, see {@link momentTensor}.
      */
     seismicMoment(): number
 
@@ -39,8 +41,8 @@ export class Surface {
      * @brief Create a Surface discontinuity given an array representing the
      * flat positions of the vertices and an array representing the indices of the
      * triangles.
-     * @param position The vertices coordinates in flat array
-     * @param index The triangles indices in flat array
+     * @param position The vertices coordinates in flat array. A `Float64Array` is used without copy
+     * @param index The triangles indices in flat array, e.g., a `Uint32Array`
      * @example
      * ```javascript
      * const arch = require('./arch')
@@ -50,32 +52,27 @@ export class Surface {
      * ```
      * 
      * <br/><br/>
-     * If you have access to the YouWol library `@youwol/io`, then it is possible to
-     * load Gocad surfaces directly from files.
+     * Gocad TSurf, OBJ, PLY and STL files can be loaded directly using the
+     * decoders (see {@link decodeGocadTS}, {@link decodeOBJ}, {@link decodePLY} and {@link decodeSTL}).
      * @example
      * ```js
      * const fs = require('fs') // 'filesystem' from node.js
-     * const io = require('@youwol/io')
      * const arch = require('./arch')
      * 
      * const model = new arch.Model()
      * 
-     * const objects  = io.decodeGocadTS( fs.readFileSync(filename, 'utf8') )
-     * objects.forEach( object => {
-     *      const vertices  = object.positions
-     *      const triangles = object.indices
-     *      const surface   = new arch.Surface(vertices, triangles)
-     *      model.addSurface(surface)
-     * })
+     * const objects  = arch.decodeGocadTS( fs.readFileSync(filename, 'utf8') )
+     * objects.forEach( object => model.addSurface(object.surface) )
      * ```
      */
-    constructor(position: FlatVectors, index: FlatVectors)
+    constructor(position: NumericArray, index: IndexArray)
 
     /**
-     * Change the geometry of the discontinuities
+     * Change the geometry of the discontinuities. The topology cannot be changed: to refine
+     * the triangles, see {@link refineSurface}
      * @param position The new position of the vertices making the discontinuities
      */
-    changeCoordinates(position: FlatVectors)
+    changeCoordinates(position: NumericArray)
 
     /**
      * @brief Set the boundary type and value for each axis of the triangles making
@@ -88,6 +85,8 @@ export class Surface {
      * For axis index it can be either 0 for the normal direction,
      * 1 for the strike direction or 2 for the dip direction.
      * For the string value, it can be either `x` or `normal`, `y` or `strike`, `z` or `dip`.
+     * If a convention is set for the model (see {@link Model.setConvention}), the axis and the value
+     * are given in this convention.
      * @param {string} type The type of boundary condition for the considered axis. For traction condition,
      * value can be either `t`, `0`, `free`, `traction`, `neumann` or `unknown`. All these values have the same 
      * meaning. For displacement condition, value can be either `b`, `1`, `displ`, `displacement`, `fixed`,
@@ -130,7 +129,7 @@ export class Surface {
      * all axis of all the triangles will be set to this number.
      * @param value
      */
-    setBCValues(value: number | Array<number>): void
+    setBCValues(value: number | NumericArray): void
 
     /**
      * Set the current displacement using a flar array {@link Vectord}
@@ -168,6 +167,12 @@ export class Surface {
      */
     displ(local: boolean, atTriangles: boolean): FlatVectors
 
+    /**
+     * @brief Same as above, but the displacement vectors are written in the caller-provided buffer
+     * `out` (of size `3*nbTriangles()` or `3*nbVertices()`), which is returned
+     */
+    displ(local: boolean, atTriangles: boolean, out: TypedFlatArray): TypedFlatArray
+
     // setDispl(displ: FlatVectors) { }
 
     /**
@@ -224,13 +229,14 @@ export class Surface {
      * Set the slip vectors defined at vertices (interpolate)
      * @param burgers 
      */
-    setDisplFromVertices(burgers: number[]): void
+    setDisplFromVertices(burgers: NumericArray): void
 
     /**
-     * Set the slip vectors defined at triangles (no interpolation)
+     * Set the slip vectors defined at triangles (no interpolation), in local coordinate system
+     * (in the convention of the model, see {@link Model.setConvention})
      * @param burgers 
      */
-    setDisplFromTriangles(burgers: number[]): void
+    setDisplFromTriangles(burgers: NumericArray): void
 
     /**
      * @brief Add a pre-defined or a user-defined constraint to this surface
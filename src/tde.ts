@@ -0,0 +1,591 @@
+import { Tensor, Vector } from './types'
+
+/**
+ * The local coordinate system of a triangular dislocation, as returned by {@link tdFrame}:
+ * - `normal`: the normal of the triangle, given by the order of the vertices (right-hand rule)
+ * - `strike`: the horizontal direction in the plane of the triangle (`ez × normal`). For a horizontal
+ * triangle, it is `+y` or `-y` depending on the orientation of the normal
+ * - `dip`: `normal × strike`, pointing upward for a dipping triangle
+ * @category Reference
+ */
+export interface TDFrame {
+    normal: Vector
+    strike: Vector
+    dip: Vector
+}
+
+/**
+ * The elastic parameters used by {@link tdStress}
+ * @category Reference
+ */
+export interface TDMaterial {
+    young: number
+    poisson: number
+}
+
+/**
+ * @brief Get the local coordinate system of a triangular dislocation
+ * @category Reference
+ */
+export function tdFrame(p1: Vector, p2: Vector, p3: Vector): TDFrame {
+    const normal = normalize(cross(sub(p2, p1), sub(p3, p1)))
+    let strike = cross([0, 0, 1], normal)
+    if (norm(strike) === 0) {
+        strike = [0, normal[2], 0]
+    }
+    strike = normalize(strike)
+    return { normal, strike, dip: cross(normal, strike) }
+}
+
+/**
+ * @brief Compute the displacement at a point due to a triangular dislocation, using the
+ * artefact-free solution of [Nikkhoo and Walter, 2015](https://academic.oup.com/gji/article/201/2/1119/572006).
+ *
+ * The Burger's vector is given in the local coordinate system of the triangle (see {@link tdFrame})
+ * as `[normal, strike, dip]`, i.e., the same order as in **Arch** (Okada convention), a positive normal
+ * component being an opening. The jump of displacement across the triangle is `u(+) - u(-) = b`, with `+`
+ * the side pointed by the normal (as {@link Surface.displPlus} and {@link Surface.displMinus}).
+ *
+ * The displacement is not defined on the triangle itself (`NaN` is returned for points on its edges).
+ * @param p The observation point
+ * @param p1 The first vertex of the triangle
+ * @param p2 The second vertex of the triangle
+ * @param p3 The third vertex of the triangle
+ * @param burgers The Burger's vector in local coordinate system
+ * @param poisson The Poisson's ratio
+ * @param halfSpace If true, z=0 is a free surface and all points must have z <= 0
+ * @returns The displacement in global coordinate system
+ * @example
+ * ```js
+ * const { tdDisplacement } = require('@youwol/arch-doc')
+ *
+ * // Strike-slip on a horizontal triangle at depth 2, in half-space
+ * const u = tdDisplacement([0, 0, -1], [-1,-1,-2], [1,-1,-2], [0,1,-2], [0, 1, 0], 0.25, true)
+ * ```
+ * @category Reference
+ */
+export function tdDisplacement(p: Vector, p1: Vector, p2: Vector, p3: Vector, burgers: Vector, poisson: number, halfSpace = false): Vector {
+    if (!halfSpace) {
+        return tdDisplFS(p, p1, p2, p3, burgers, poisson)
+    }
+    checkHalfSpace(p, p1, p2, p3)
+    const ms = tdDisplFS(p, p1, p2, p3, burgers, poisson)
+    const fsc = tdDisplHarmonic(p, p1, p2, p3, burgers, poisson)
+    const is = tdDisplFS(p, mirror(p1), mirror(p2), mirror(p3), imageBurgers(p1, p2, p3, burgers), poisson)
+    if (p1[2] === 0 && p2[2] === 0 && p3[2] === 0) {
+        is[2] = -is[2]
+    }
+    return [ms[0] + is[0] + fsc[0], ms[1] + is[1] + fsc[1], ms[2] + is[2] + fsc[2]]
+}
+
+/**
+ * @brief Compute the strain at a point due to a triangular dislocation
+ * (see {@link tdDisplacement} for the conventions).
+ *
+ * In full-space, the strain is analytical. In half-space, the main and image dislocations are
+ * analytical while the free surface correction, which is harmonic and regular in the half-space,
+ * is differentiated numerically (4th order central differences).
+ * @returns The strain in global coordinate system as `[xx, xy, xz, yy, yz, zz]`
+ * @category Reference
+ */
+export function tdStrain(p: Vector, p1: Vector, p2: Vector, p3: Vector, burgers: Vector, poisson: number, halfSpace = false): Tensor {
+    if (!halfSpace) {
+        return tdStrainFS(p, p1, p2, p3, burgers, poisson)
+    }
+    checkHalfSpace(p, p1, p2, p3)
+    const ms = tdStrainFS(p, p1, p2, p3, burgers, poisson)
+    const fsc = harmonicStrain(p, p1, p2, p3, burgers, poisson)
+    const is = tdStrainFS(p, mirror(p1), mirror(p2), mirror(p3), imageBurgers(p1, p2, p3, burgers), poisson)
+    if (p1[2] === 0 && p2[2] === 0 && p3[2] === 0) {
+        is[2] = -is[2]
+        is[4] = -is[4]
+    }
+    return ms.map((v, i) => v + is[i] + fsc[i]) as Tensor
+}
+
+/**
+ * @brief Compute the stress at a point due to a triangular dislocation
+ * (see {@link tdDisplacement} and {@link tdStrain})
+ * @returns The stress in global coordinate system as `[xx, xy, xz, yy, yz, zz]`
+ * @category Reference
+ */
+export function tdStress(p: Vector, p1: Vector, p2: Vector, p3: Vector, burgers: Vector, material: TDMaterial, halfSpace = false): Tensor {
+    return strainToStress(tdStrain(p, p1, p2, p3, burgers, material.poisson, halfSpace), material)
+}
+
+/**
+ * @brief Convert a strain into a stress using the Hooke's law for an isotropic material
+ * @category Reference
+ */
+export function strainToStress(e: Tensor, material: TDMaterial): Tensor {
+    const nu = material.poisson
+    const mu = material.young / (2 * (1 + nu))
+    const lambda = material.young * nu / ((1 + nu) * (1 - 2 * nu))
+    const tr = lambda * (e[0] + e[3] + e[5])
+    return [2 * mu * e[0] + tr, 2 * mu * e[1], 2 * mu * e[2], 2 * mu * e[3] + tr, 2 * mu * e[4], 2 * mu * e[5] + tr]
+}
+
+// ----------------------------------------------------------------------
+
+type Mat3 = [Vector, Vector, Vector] // rows
+
+function sub(a: Vector, b: Vector): Vector {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]]
+}
+
+function dot(a: Vector, b: Vector): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+function cross(a: Vector, b: Vector): Vector {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]]
+}
+
+function norm(a: Vector): number {
+    return Math.sqrt(dot(a, a))
+}
+
+function normalize(a: Vector): Vector {
+    const n = norm(a)
+    return [a[0] / n, a[1] / n, a[2] / n]
+}
+
+function mirror(a: Vector): Vector {
+    return [a[0], a[1], -a[2]]
+}
+
+/**
+ * The Burger's vector of the image dislocation. The frame of the mirrored triangle is the mirror of
+ * the original one, except for a horizontal triangle where the strike and dip directions are not
+ * reverted (see tdFrame)
+ */
+function imageBurgers(p1: Vector, p2: Vector, p3: Vector, burgers: Vector): Vector {
+    const n = cross(sub(p2, p1), sub(p3, p1))
+    return n[0] === 0 && n[1] === 0 ? [burgers[0], -burgers[1], -burgers[2]] : burgers
+}
+
+function checkHalfSpace(p: Vector, p1: Vector, p2: Vector, p3: Vector) {
+    if (p[2] > 0 || p1[2] > 0 || p2[2] > 0 || p3[2] > 0) {
+        throw new Error('Half-space solution: z coordinates must be negative or null')
+    }
+}
+
+/**
+ * T' = A.T.At for a symmetric tensor [xx, xy, xz, yy, yz, zz]
+ */
+function rotateTensor(t: Tensor, A: Mat3): Tensor {
+    const T = [[t[0], t[1], t[2]], [t[1], t[3], t[4]], [t[2], t[4], t[5]]]
+    const r = (i: number, j: number) => {
+        let s = 0
+        for (let k = 0; k < 3; ++k) {
+            for (let l = 0; l < 3; ++l) {
+                s += A[i][k] * A[j][l] * T[k][l]
+            }
+        }
+        return s
+    }
+    return [r(0, 0), r(0, 1), r(0, 2), r(1, 1), r(1, 2), r(2, 2)]
+}
+
+/**
+ * The geometry of a triangle expressed in its local coordinate system (TDCS), with p2 as origin
+ */
+interface TDGeometry {
+    frame: TDFrame
+    toGlobal: Mat3
+    p1: Vector
+    p2: Vector
+    p3: Vector
+    e12: Vector
+    e13: Vector
+    e23: Vector
+    A: number
+    B: number
+    C: number
+}
+
+function tdGeometry(P1: Vector, P2: Vector, P3: Vector): TDGeometry {
+    const frame = tdFrame(P1, P2, P3)
+    const toLocal = (v: Vector): Vector => [dot(frame.normal, v), dot(frame.strike, v), dot(frame.dip, v)]
+    const p1 = toLocal(sub(P1, P2))
+    const p2: Vector = [0, 0, 0]
+    const p3 = toLocal(sub(P3, P2))
+    const e12 = normalize(sub(p2, p1))
+    const e13 = normalize(sub(p3, p1))
+    const e23 = normalize(sub(p3, p2))
+    const { normal: n, strike: s, dip: d } = frame
+    return {
+        frame,
+        toGlobal: [[n[0], s[0], d[0]], [n[1], s[1], d[1]], [n[2], s[2], d[2]]],
+        p1, p2, p3, e12, e13, e23,
+        A: Math.acos(dot(e12, e13)),
+        B: Math.acos(-dot(e12, e23)),
+        C: Math.acos(dot(e23, e13))
+    }
+}
+
+function localPoint(p: Vector, P2: Vector, frame: TDFrame): Vector {
+    const v = sub(p, P2)
+    return [dot(frame.normal, v), dot(frame.strike, v), dot(frame.dip, v)]
+}
+
+/**
+ * Select the configuration of the angular dislocations: 1 for the first configuration,
+ * -1 for the second one, 0 for points on the triangle edges (singular)
+ */
+function trimode(x: number, y: number, z: number, p1: Vector, p2: Vector, p3: Vector): number {
+    // barycentric coordinates in the plane (strike, dip)
+    const den = (p2[2] - p3[2]) * (p1[1] - p3[1]) + (p3[1] - p2[1]) * (p1[2] - p3[2])
+    const a = ((p2[2] - p3[2]) * (y - p3[1]) + (p3[1] - p2[1]) * (z - p3[2])) / den
+    const b = ((p3[2] - p1[2]) * (y - p3[1]) + (p1[1] - p3[1]) * (z - p3[2])) / den
+    const c = 1 - a - b
+    let mode = 1
+    if ((a <= 0 && b > c && c > a) || (b <= 0 && c > a && a > b) || (c <= 0 && a > b && b > c)) {
+        mode = -1
+    }
+    if ((a === 0 && b >= 0 && c >= 0) || (a >= 0 && b === 0 && c >= 0) || (a >= 0 && b >= 0 && c === 0)) {
+        mode = 0
+    }
+    if (mode === 0 && x !== 0) {
+        mode = 1
+    }
+    return mode
+}
+
+/**
+ * The three angular dislocations (angle, vertex and side vector) making the triangle
+ */
+function angularDislocations(g: TDGeometry, mode: number): Array<[number, Vector, Vector]> {
+    const minus = (v: Vector): Vector => [-v[0], -v[1], -v[2]]
+    return mode === 1 ? [
+        [g.A, g.p1, minus(g.e13)],
+        [g.B, g.p2, g.e12],
+        [g.C, g.p3, g.e23]
+    ] : [
+        [g.A, g.p1, g.e13],
+        [g.B, g.p2, minus(g.e12)],
+        [g.C, g.p3, minus(g.e23)]
+    ]
+}
+
+function tdDisplFS(p: Vector, P1: Vector, P2: Vector, P3: Vector, burgers: Vector, nu: number): Vector {
+    const g = tdGeometry(P1, P2, P3)
+    const [x, y, z] = localPoint(p, P2, g.frame)
+    const [bx, by, bz] = burgers
+
+    const mode = trimode(x, y, z, g.p1, g.p2, g.p3)
+    if (mode === 0) {
+        return [NaN, NaN, NaN]
+    }
+
+    let u = 0, v = 0, w = 0
+    angularDislocations(g, mode).forEach(([alpha, vertex, side]) => {
+        const r = tdSetupD(x, y, z, alpha, bx, by, bz, nu, vertex, side)
+        u += r[0]
+        v += r[1]
+        w += r[2]
+    })
+
+    // Burgers' function (solid angle)
+    const a: Vector = [-x, g.p1[1] - y, g.p1[2] - z]
+    const b: Vector = [-x, -y, -z]
+    const c: Vector = [-x, g.p3[1] - y, g.p3[2] - z]
+    const na = norm(a), nb = norm(b), nc = norm(c)
+    const Fi = -2 * Math.atan2(dot(a, cross(b, c)), na * nb * nc + dot(a, b) * nc + dot(a, c) * nb + dot(b, c) * na) / 4 / Math.PI
+
+    u += bx * Fi
+    v += by * Fi
+    w += bz * Fi
+
+    const { normal: n, strike: s, dip: d } = g.frame
+    return [
+        n[0] * u + s[0] * v + d[0] * w,
+        n[1] * u + s[1] * v + d[1] * w,
+        n[2] * u + s[2] * v + d[2] * w
+    ]
+}
+
+function tdSetupD(x: number, y: number, z: number, alpha: number, bx: number, by: number, bz: number, nu: number, vertex: Vector, side: Vector): Vector {
+    const s2 = side[1], s3 = side[2]
+    // From TDCS to the angular dislocation coordinate system (ADCS)
+    const y1 = s3 * (y - vertex[1]) - s2 * (z - vertex[2])
+    const z1 = s2 * (y - vertex[1]) + s3 * (z - vertex[2])
+    const by1 = s3 * by - s2 * bz
+    const bz1 = s2 * by + s3 * bz
+    const [u, v0, w0] = angDisDisp(x, y1, z1, -Math.PI + alpha, bx, by1, bz1, nu)
+    return [u, s3 * v0 + s2 * w0, -s2 * v0 + s3 * w0]
+}
+
+function angDisDisp(x: number, y: number, z: number, alpha: number, bx: number, by: number, bz: number, nu: number): Vector {
+    const cosA = Math.cos(alpha)
+    const sinA = Math.sin(alpha)
+    const eta = y * cosA - z * sinA
+    let zeta = y * sinA + z * cosA
+    const r = Math.sqrt(x * x + y * y + z * z)
+
+    // Avoid complex results for the logarithmic terms
+    if (zeta > r) zeta = r
+    if (z > r) z = r
+
+    const f = 1 / 8 / Math.PI / (1 - nu)
+    const rz = r - z
+    const rzeta = r - zeta
+
+    const ux = bx * f * (x * y / r / rz - x * eta / r / rzeta)
+    const vx = bx * f * (eta * sinA / rzeta - y * eta / r / rzeta + y * y / r / rz + (1 - 2 * nu) * (cosA * Math.log(rzeta) - Math.log(rz)))
+    const wx = bx * f * (eta * cosA / rzeta - y / r - eta * z / r / rzeta - (1 - 2 * nu) * sinA * Math.log(rzeta))
+
+    const uy = by * f * (x * x * cosA / r / rzeta - x * x / r / rz - (1 - 2 * nu) * (cosA * Math.log(rzeta) - Math.log(rz)))
+    const vy = by * x * f * (y * cosA / r / rzeta - sinA * cosA / rzeta - y / r / rz)
+    const wy = by * x * f * (z * cosA / r / rzeta - cosA * cosA / rzeta + 1 / r)
+
+    const uz = bz * sinA * f * ((1 - 2 * nu) * Math.log(rzeta) - x * x / r / rzeta)
+    const vz = bz * x * sinA * f * (sinA / rzeta - y / r / rzeta)
+    const wz = bz * x * sinA * f * (cosA / rzeta - z / r / rzeta)
+
+    return [ux + uy + uz, vx + vy + vz, wx + wy + wz]
+}
+
+function tdStrainFS(p: Vector, P1: Vector, P2: Vector, P3: Vector, burgers: Vector, nu: number): Tensor {
+    const g = tdGeometry(P1, P2, P3)
+    const [x, y, z] = localPoint(p, P2, g.frame)
+    const [bx, by, bz] = burgers
+
+    const mode = trimode(x, y, z, g.p1, g.p2, g.p3)
+    if (mode === 0) {
+        return [NaN, NaN, NaN, NaN, NaN, NaN]
+    }
+
+    const e: Tensor = [0, 0, 0, 0, 0, 0]
+    angularDislocations(g, mode).forEach(([alpha, vertex, side]) => {
+        const r = tdSetupS(x, y, z, alpha, bx, by, bz, nu, vertex, side)
+        for (let i = 0; i < 6; ++i) e[i] += r[i]
+    })
+
+    return rotateTensor(e, g.toGlobal)
+}
+
+function tdSetupS(x: number, y: number, z: number, alpha: number, bx: number, by: number, bz: number, nu: number, vertex: Vector, side: Vector): Tensor {
+    const s2 = side[1], s3 = side[2]
+    const y1 = s3 * (y - vertex[1]) - s2 * (z - vertex[2])
+    const z1 = s2 * (y - vertex[1]) + s3 * (z - vertex[2])
+    const by1 = s3 * by - s2 * bz
+    const bz1 = s2 * by + s3 * bz
+    const e = angDisStrain(x, y1, z1, -Math.PI + alpha, bx, by1, bz1, nu)
+    // From ADCS to TDCS
+    return rotateTensor(e, [[1, 0, 0], [0, s3, s2], [0, -s2, s3]])
+}
+
+function angDisStrain(x: number, y: number, z: number, alpha: number, bx: number, by: number, bz: number, nu: number): Tensor {
+    const sinA = Math.sin(alpha)
+    const cosA = Math.cos(alpha)
+    const eta = y * cosA - z * sinA
+    const zeta = y * sinA + z * cosA
+
+    const x2 = x * x, y2 = y * y, z2 = z * z
+    const r2 = x2 + y2 + z2
+    const r = Math.sqrt(r2)
+    const r3 = r * r2
+    const rz = r * (r - z)
+    const r2z2 = r2 * (r - z) * (r - z)
+    const r3z = r3 * (r - z)
+
+    const W = zeta - r
+    const W2 = W * W
+    const Wr = W * r
+    const W2r = W2 * r
+    const Wr3 = W * r3
+    const W2r2 = W2 * r2
+
+    const C = (r * cosA - z) / Wr
+    const S = (r * sinA - y) / Wr
+
+    // Partial derivatives of the Burgers' function
+    const rFi_rx = (eta / r / (r - zeta) - y / r / (r - z)) / 4 / Math.PI
+    const rFi_ry = (x / r / (r - z) - cosA * x / r / (r - zeta)) / 4 / Math.PI
+    const rFi_rz = (sinA * x / r / (r - zeta)) / 4 / Math.PI
+
+    const f = 1 / 8 / Math.PI / (1 - nu)
+
+    const exx = bx * rFi_rx +
+        bx * f * (eta / Wr + eta * x2 / W2r2 - eta * x2 / Wr3 + y / rz - x2 * y / r2z2 - x2 * y / r3z) -
+        by * x * f * (((2 * nu + 1) / Wr + x2 / W2r2 - x2 / Wr3) * cosA + (2 * nu + 1) / rz - x2 / r2z2 - x2 / r3z) +
+        bz * x * sinA * f * ((2 * nu + 1) / Wr + x2 / W2r2 - x2 / Wr3)
+
+    const eyy = by * rFi_ry +
+        bx * f * ((1 / Wr + S * S - y2 / Wr3) * eta + (2 * nu + 1) * y / rz - y * y2 / r2z2 - y * y2 / r3z - 2 * nu * cosA * S) -
+        by * x * f * (1 / rz - y2 / r2z2 - y2 / r3z + (1 / Wr + S * S - y2 / Wr3) * cosA) +
+        bz * x * sinA * f * (1 / Wr + S * S - y2 / Wr3)
+
+    const ezz = bz * rFi_rz +
+        bx * f * (eta / W / r + eta * C * C - eta * z2 / Wr3 + y * z / r3 + 2 * nu * sinA * C) -
+        by * x * f * ((1 / Wr + C * C - z2 / Wr3) * cosA + z / r3) +
+        bz * x * sinA * f * (1 / Wr + C * C - z2 / Wr3)
+
+    const exy = bx * rFi_ry / 2 + by * rFi_rx / 2 -
+        bx * f * (x * y2 / r2z2 - nu * x / rz + x * y2 / r3z - nu * x * cosA / Wr + eta * x * S / Wr + eta * x * y / Wr3) +
+        by * f * (x2 * y / r2z2 - nu * y / rz + x2 * y / r3z + nu * cosA * S + x2 * y * cosA / Wr3 + x2 * cosA * S / Wr) -
+        bz * sinA * f * (nu * S + x2 * S / Wr + x2 * y / Wr3)
+
+    const exz = bx * rFi_rz / 2 + bz * rFi_rx / 2 -
+        bx * f * (-x * y / r3 + nu * x * sinA / Wr + eta * x * C / Wr + eta * x * z / Wr3) +
+        by * f * (-x2 / r3 + nu / r + nu * cosA * C + x2 * cosA * C / Wr + x2 * z * cosA / Wr3) -
+        bz * sinA * f * (nu * C + x2 * C / Wr + x2 * z / Wr3)
+
+    const eyz = by * rFi_rz / 2 + bz * rFi_ry / 2 +
+        bx * f * (y2 / r3 - nu / r - nu * cosA * C + nu * sinA * S + eta * sinA * cosA / W2 -
+            eta * (y * cosA + z * sinA) / W2r + eta * y * z / W2r2 - eta * y * z / Wr3) -
+        by * x * f * (y / r3 + sinA * cosA * cosA / W2 - cosA * (y * cosA + z * sinA) / W2r + y * z * cosA / W2r2 - y * z * cosA / Wr3) -
+        bz * x * sinA * f * (y * z / Wr3 - sinA * cosA / W2 + (y * cosA + z * sinA) / W2r - y * z / W2r2)
+
+    return [exx, exy, exz, eyy, eyz, ezz]
+}
+
+/**
+ * The free surface correction of the displacement (harmonic function), sum of the contributions
+ * of the angular dislocation pairs on each side of the triangle
+ */
+function tdDisplHarmonic(p: Vector, P1: Vector, P2: Vector, P3: Vector, burgers: Vector, nu: number): Vector {
+    const { normal: n, strike: s, dip: d } = tdFrame(P1, P2, P3)
+    const [bx, by, bz] = burgers
+    const b: Vector = [
+        n[0] * bx + s[0] * by + d[0] * bz,
+        n[1] * bx + s[1] * by + d[1] * bz,
+        n[2] * bx + s[2] * by + d[2] * bz
+    ]
+    const u1 = angSetupFSC(p, b, P1, P2, nu)
+    const u2 = angSetupFSC(p, b, P2, P3, nu)
+    const u3 = angSetupFSC(p, b, P3, P1, nu)
+    return [u1[0] + u2[0] + u3[0], u1[1] + u2[1] + u3[1], u1[2] + u2[2] + u3[2]]
+}
+
+function harmonicStrain(p: Vector, P1: Vector, P2: Vector, P3: Vector, burgers: Vector, nu: number): Tensor {
+    const size = Math.max(norm(sub(P2, P1)), norm(sub(P3, P2)), norm(sub(P1, P3)))
+    const h = 1e-3 * Math.min(size, Math.max(-p[2], -P1[2], -P2[2], -P3[2], 1e-3 * size))
+    // grad[i][j] = d u_j / d x_i
+    const grad = [0, 1, 2].map(i => {
+        const at = (k: number) => {
+            const q: Vector = [p[0], p[1], p[2]]
+            q[i] += k * h
+            return tdDisplHarmonic(q, P1, P2, P3, burgers, nu)
+        }
+        const m2 = at(-2), m1 = at(-1), p1 = at(1), p2 = at(2)
+        return [0, 1, 2].map(j => (m2[j] - 8 * m1[j] + 8 * p1[j] - p2[j]) / (12 * h))
+    })
+    return [
+        grad[0][0],
+        (grad[0][1] + grad[1][0]) / 2,
+        (grad[0][2] + grad[2][0]) / 2,
+        grad[1][1],
+        (grad[1][2] + grad[2][1]) / 2,
+        grad[2][2]
+    ]
+}
+
+function angSetupFSC(p: Vector, b: Vector, PA: Vector, PB: Vector, nu: number): Vector {
+    const side = sub(PB, PA)
+    const beta = Math.acos(-side[2] / norm(side))
+    if (Math.abs(beta) < Number.EPSILON || Math.abs(Math.PI - beta) < Number.EPSILON) {
+        return [0, 0, 0]
+    }
+
+    const ey1 = normalize([side[0], side[1], 0])
+    const ey3: Vector = [0, 0, -1]
+    const ey2 = cross(ey3, ey1)
+    const toADCS = (v: Vector): Vector => [dot(ey1, v), dot(ey2, v), dot(ey3, v)]
+
+    const yA = toADCS(sub(p, PA))
+    const yAB = toADCS(side)
+    const yB = sub(yA, yAB)
+    const [b1, b2, b3] = toADCS(b)
+
+    // Best artefact-free configuration for the points near the free surface
+    const angle = beta * yA[0] >= 0 ? -Math.PI + beta : beta
+    const vA = angDisDispFSC(yA[0], yA[1], yA[2], angle, b1, b2, b3, nu, -PA[2])
+    const vB = angDisDispFSC(yB[0], yB[1], yB[2], angle, b1, b2, b3, nu, -PB[2])
+    const v = sub(vB, vA)
+
+    return [
+        ey1[0] * v[0] + ey2[0] * v[1] + ey3[0] * v[2],
+        ey1[1] * v[0] + ey2[1] * v[1] + ey3[1] * v[2],
+        ey1[2] * v[0] + ey2[2] * v[1] + ey3[2] * v[2]
+    ]
+}
+
+function angDisDispFSC(y1: number, y2: number, y3: number, beta: number, b1: number, b2: number, b3: number, nu: number, a: number): Vector {
+    const sinB = Math.sin(beta)
+    const cosB = Math.cos(beta)
+    const cotB = cosB / sinB
+    const y3b = y3 + 2 * a
+    const z1b = y1 * cosB + y3b * sinB
+    const z3b = -y1 * sinB + y3b * cosB
+    const rb = Math.sqrt(y1 * y1 + y2 * y2 + y3b * y3b)
+    const rb3 = rb * rb * rb
+
+    // The Burgers' function
+    const Fib = 2 * Math.atan(-y2 / (-(rb + y3b) / Math.tan(beta / 2) + y1))
+
+    const N1 = 1 - 2 * nu
+    const f = 1 / 4 / Math.PI / (1 - nu)
+    const ry3b = rb + y3b
+    const rz3b = rb + z3b
+    const logy = Math.log(ry3b)
+    const logz = Math.log(rz3b)
+
+    const v1cb1 = b1 * f * (-2 * (1 - nu) * N1 * Fib * cotB * cotB + N1 * y2 /
+        ry3b * ((1 - 2 * nu - a / rb) * cotB - y1 / ry3b * (nu + a / rb)) + N1 *
+        y2 * cosB * cotB / rz3b * (cosB + a / rb) + a * y2 * (y3b - a) * cotB / rb3 + y2 *
+        (y3b - a) / (rb * ry3b) * (-N1 * cotB + y1 / ry3b * (2 * nu + a / rb) +
+            a * y1 / (rb * rb)) + y2 * (y3b - a) / (rb * rz3b) * (cosB / rz3b * ((rb *
+                cosB + y3b) * (N1 * cosB - a / rb) * cotB + 2 * (1 - nu) * (rb * sinB - y1) * cosB) -
+                a * y3b * cosB * cotB / (rb * rb)))
+
+    const v2cb1 = b1 * f * (N1 * ((2 * (1 - nu) * cotB * cotB - nu) * logy - (2 *
+        (1 - nu) * cotB * cotB + 1 - 2 * nu) * cosB * logz) - N1 / ry3b * (y1 *
+            cotB * (1 - 2 * nu - a / rb) + nu * y3b - a + y2 * y2 / ry3b * (nu + a / rb)) - N1 *
+        z1b * cotB / rz3b * (cosB + a / rb) - a * y1 * (y3b - a) * cotB / rb3 +
+        (y3b - a) / ry3b * (-2 * nu + 1 / rb * (N1 * y1 * cotB - a) + y2 * y2 / (rb *
+            ry3b) * (2 * nu + a / rb) + a * y2 * y2 / rb3) + (y3b - a) / rz3b * (cosB * cosB -
+                1 / rb * (N1 * z1b * cotB + a * cosB) + a * y3b * z1b * cotB / rb3 - 1 / (rb *
+                    rz3b) * (y2 * y2 * cosB * cosB - a * z1b * cotB / rb * (rb * cosB + y3b))))
+
+    const v3cb1 = b1 * f * (2 * (1 - nu) * ((N1 * Fib * cotB) + (y2 / ry3b * (2 *
+        nu + a / rb)) - (y2 * cosB / rz3b * (cosB + a / rb))) + y2 * (y3b - a) / rb * (2 *
+            nu / ry3b + a / (rb * rb)) + y2 * (y3b - a) * cosB / (rb * rz3b) * (1 - 2 * nu -
+                (rb * cosB + y3b) / rz3b * (cosB + a / rb) - a * y3b / (rb * rb)))
+
+    const v1cb2 = b2 * f * (N1 * ((2 * (1 - nu) * cotB * cotB + nu) * logy - (2 *
+        (1 - nu) * cotB * cotB + 1) * cosB * logz) + N1 / ry3b * (-N1 *
+            y1 * cotB + nu * y3b - a + a * y1 * cotB / rb + y1 * y1 / ry3b * (nu + a / rb)) - N1 *
+        cotB / rz3b * (z1b * cosB - a * (rb * sinB - y1) / (rb * cosB)) - a * y1 *
+        (y3b - a) * cotB / rb3 + (y3b - a) / ry3b * (2 * nu + 1 / rb * (N1 * y1 *
+            cotB + a) - y1 * y1 / (rb * ry3b) * (2 * nu + a / rb) - a * y1 * y1 / rb3) + (y3b - a) *
+        cotB / rz3b * (-cosB * sinB + a * y1 * y3b / (rb3 * cosB) + (rb * sinB - y1) /
+            rb * (2 * (1 - nu) * cosB - (rb * cosB + y3b) / rz3b * (1 + a / (rb * cosB)))))
+
+    const v2cb2 = b2 * f * (2 * (1 - nu) * N1 * Fib * cotB * cotB + N1 * y2 /
+        ry3b * (-(1 - 2 * nu - a / rb) * cotB + y1 / ry3b * (nu + a / rb)) - N1 *
+        y2 * cotB / rz3b * (1 + a / (rb * cosB)) - a * y2 * (y3b - a) * cotB / rb3 + y2 *
+        (y3b - a) / (rb * ry3b) * (N1 * cotB - 2 * nu * y1 / ry3b - a * y1 / rb *
+            (1 / rb + 1 / ry3b)) + y2 * (y3b - a) * cotB / (rb * rz3b) * (-2 * (1 - nu) *
+                cosB + (rb * cosB + y3b) / rz3b * (1 + a / (rb * cosB)) + a * y3b / (rb * rb * cosB)))
+
+    const v3cb2 = b2 * f * (-2 * (1 - nu) * N1 * cotB * (logy - cosB *
+        logz) - 2 * (1 - nu) * y1 / ry3b * (2 * nu + a / rb) + 2 * (1 - nu) * z1b / rz3b * (cosB + a / rb) + (y3b - a) / rb * (N1 * cotB - 2 * nu * y1 / ry3b - a *
+            y1 / (rb * rb)) - (y3b - a) / rz3b * (cosB * sinB + (rb * cosB + y3b) * cotB / rb *
+                (2 * (1 - nu) * cosB - (rb * cosB + y3b) / rz3b) + a / rb * (sinB - y3b * z1b /
+                    (rb * rb) - z1b * (rb * cosB + y3b) / (rb * rz3b))))
+
+    const v1cb3 = b3 * f * (N1 * (y2 / ry3b * (1 + a / rb) - y2 * cosB / rz3b * (cosB + a / rb)) - y2 * (y3b - a) / rb * (a / (rb * rb) + 1 / ry3b) + y2 *
+        (y3b - a) * cosB / (rb * rz3b) * ((rb * cosB + y3b) / rz3b * (cosB + a /
+            rb) + a * y3b / (rb * rb)))
+
+    const v2cb3 = b3 * f * (N1 * (-sinB * logz - y1 / ry3b * (1 + a /
+        rb) + z1b / rz3b * (cosB + a / rb)) + y1 * (y3b - a) / rb * (a / (rb * rb) + 1 / ry3b) - (y3b - a) / rz3b * (sinB * (cosB - a / rb) + z1b / rb * (1 + a * y3b /
+            (rb * rb)) - 1 / (rb * rz3b) * (y2 * y2 * cosB * sinB - a * z1b / rb * (rb * cosB + y3b))))
+
+    const v3cb3 = b3 * f * (2 * (1 - nu) * Fib + 2 * (1 - nu) * (y2 * sinB / rz3b * (cosB +
+        a / rb)) + y2 * (y3b - a) * sinB / (rb * rz3b) * (1 + (rb * cosB + y3b) / rz3b * (cosB + a / rb) + a * y3b / (rb * rb)))
+
+    return [v1cb1 + v1cb2 + v1cb3, v2cb1 + v2cb2 + v2cb3, v3cb1 + v3cb2 + v3cb3]
+}
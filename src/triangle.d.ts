@@ -122,12 +122,14 @@ export class Triangle {
 
     /**
      * Transform a vector v in local coordinate system of the considered triangle
+     * (in the convention of the model, see {@link Model.setConvention})
      */
     toLocal(i: number, v: Vector): Vector
     toLocal(v: Vector): Vector
 
     /**
-     * Transform a vector v in global coordinate system of the considered triangle
+     * Transform a vector v, given in the local coordinate system of the considered triangle
+     * (in the convention of the model, see {@link Model.setConvention}), in global coordinate system
      */
     toGlobal(i: number, v: Vector): Vector
     toGlobal(v: Vector): Vector
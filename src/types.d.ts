@@ -126,3 +126,27 @@ export type FlatVectors   = Array<number>
  * @category Math
  */
 export type FlatTensors   = Array<number>
+
+/**
+ * @brief A typed array of floating point values. Typed arrays are passed to and returned by
+ * **Arch** without copy nor boxing (see {@link Example_typed_arrays}).
+ * 
+ * @category Math
+ */
+export type TypedFlatArray = Float64Array | Float32Array
+
+/**
+ * @brief Either a plain array or a typed array of floating point values. Methods accepting this
+ * type use the zero-copy path when given a `Float64Array`. A `Float32Array` is converted on the fly,
+ * and a plain array is copied as before.
+ * 
+ * @category Math
+ */
+export type NumericArray = Array<number> | TypedFlatArray
+
+/**
+ * @brief Either a plain array or a typed array of indices (e.g., the triangles of a {@link Surface})
+ * 
+ * @category Math
+ */
+export type IndexArray = Array<number> | Uint32Array
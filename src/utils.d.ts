@@ -1,4 +1,4 @@
-import { FlatVectors, FlatTensors, Vector, Tensor } from './types'
+import { FlatVectors, FlatTensors, NumericArray, Vector, Tensor } from './types'
 
 //export namespace utils {
 
@@ -16,9 +16,18 @@ import { FlatVectors, FlatTensors, Vector, Tensor } from './types'
      * const u = h.map( u => [u[0], u[1], 3*u[2]] )
      * console.log(u)
      * ```
+     * The iterator also works on typed arrays (see [[Example_typed_arrays]]), directly on the
+     * given buffer. Use `reuse` and `out` to avoid allocating the items and the result:
+     * ```javascript
+     * const displ = solution.displ(grid, { out: new Float64Array(grid.length) })
+     * const it = new arch.VectorIt(displ)
+     * let max = 0
+     * it.forEach( u => max = Math.max(max, Math.hypot(...u)), true )
+     * it.map( u => [u[0], u[1], 3*u[2]], displ ) // in place
+     * ```
      */
     export class VectorIt {
-        constructor(vectors: FlatVectors) 
+        constructor(vectors: NumericArray) 
 
         /**
          * @brief Get the number of items
@@ -28,19 +37,33 @@ import { FlatVectors, FlatTensors, Vector, Tensor } from './types'
         /**
          * @param cb The callback with signature
          * ```javascript
-         * (u: Vector): void
+         * (u: Vector, index: number): void
          * ```
+         * @param reuse If true, the same array is passed at each call (no allocation), so it must
+         * not be kept nor modified by the callback
+         * @default reuse false
          */
-        forEach(cb: Function): void
+        forEach(cb: Function, reuse?: boolean): void
 
         /**
          * @param cb The callback with signature
          * ```javascript
-         * (u: Vector): Vector
+         * (u: Vector, index: number): Vector
          * ```
          */
         map(cb: Function): FlatVectors
 
+        /**
+         * @brief Same as above, but the results are written in the buffer `out` (which can be the
+         * iterated one), which is returned
+         */
+        map<T extends NumericArray>(cb: Function, out: T): T
+
+        /**
+         * @brief Set the value at a specified index in [0, [[count]]()-1], directly in the iterated array
+         */
+        set(index: number, value: Vector): void
+
         /**
          * @brief Get the value at a specified index in [0, [[count]]()-1]
          * @param index 
@@ -65,7 +88,9 @@ import { FlatVectors, FlatTensors, Vector, Tensor } from './types'
     }
 
     /**
-     * @brief Helper class to simply iterate over a [[FlatTensors]]
+     * @brief Helper class to simply iterate over a [[FlatTensors]].
+     * For principal values, invariants or rotations, see the vectorized functions
+     * such as [[principalValues]] or [[rotateTensors]].
      * @example
      * ```javascript
      * const stress = solution.stress(position)
@@ -79,9 +104,11 @@ import { FlatVectors, FlatTensors, Vector, Tensor } from './types'
      * })
      * console.log(s)
      * ```
+     * As for [[VectorIt]], typed arrays are iterated directly and `reuse` and `out`
+     * avoid allocating the items and the result.
      */
     export class TensorIt {
-        constructor(vectors: FlatTensors) 
+        constructor(vectors: NumericArray) 
 
         /**
          * @brief Get the number of items
@@ -91,19 +118,33 @@ import { FlatVectors, FlatTensors, Vector, Tensor } from './types'
         /**
          * @param cb The callback with signature
          * ```javascript
-         * (u: Tensor): void
+         * (u: Tensor, index: number): void
          * ```
+         * @param reuse If true, the same array is passed at each call (no allocation), so it must
+         * not be kept nor modified by the callback
+         * @default reuse false
          */
-        forEach(cb: Function): void
+        forEach(cb: Function, reuse?: boolean): void
 
         /**
          * @param cb The callback with signature
          * ```javascript
-         * (u: Tensor): Tensor
+         * (u: Tensor, index: number): Tensor
          * ```
          */
         map(cb: Function): FlatTensors
 
+        /**
+         * @brief Same as above, but the results are written in the buffer `out` (which can be the
+         * iterated one), which is returned
+         */
+        map<T extends NumericArray>(cb: Function, out: T): T
+
+        /**
+         * @brief Set the value at a specified index in [0, [[count]]()-1], directly in the iterated array
+         */
+        set(index: number, value: Tensor): void
+
         /**
          * @brief Get the value at a specified index in [0, [[count]]()-1]
          * @param index 
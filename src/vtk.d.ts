@@ -0,0 +1,98 @@
+import { Model } from './model'
+import { Solution } from './solution'
+import { FlatVectors, Vectord } from './types'
+
+/**
+ * A set of observation points (or a grid if `index` is provided) to add as a block
+ * in the exported multiblock.
+ * @category IO
+ */
+export interface VTKObservation {
+    /**
+     * @brief The name of the block
+     */
+    name: string
+
+    /**
+     * @brief The positions of the points in flat array
+     */
+    position: FlatVectors
+
+    /**
+     * @brief Optional triangles (in flat array) linking the points
+     */
+    index?: Vectord
+}
+
+/**
+ * Options for {@link exportVTK}
+ * @category IO
+ */
+export interface VTKOptions {
+    /**
+     * @brief The base name of the generated files
+     * @default 'model'
+     */
+    name?: string
+
+    /**
+     * @brief Observation points where displacement, strain and stress are computed
+     * @default []
+     */
+    observations?: Array<VTKObservation>
+
+    /**
+     * @brief Encode the data arrays in base64 binary instead of ascii
+     * @default true
+     */
+    binary?: boolean
+
+    /**
+     * @brief The delta used for `displPlus` and `displMinus` (see {@link Surface.displPlus})
+     * @default 1e-7
+     */
+    delta?: number
+}
+
+/**
+ * @brief Export a solved {@link Model} in the VTK XML format, to be opened with
+ * [ParaView](https://www.paraview.org).
+ * The result is a multiblock file (`.vtm`) referencing one unstructured grid file (`.vtu`)
+ * per {@link Surface} and per observation set.
+ *
+ * For each surface, the cell data (at triangles) are
+ * - `burgers` and `localBurgers`: the Burger's vectors in global and local coordinate system
+ * - `displPlus` and `displMinus`: see {@link Surface.displPlus} and {@link Surface.displMinus}
+ * - `bcType`: the boundary condition types of the 3 axis (0 for traction, 1 for displacement,
+ * see {@link Triangle.bcType})
+ * - `hasSlipped`: 1 if the triangle has slipped, 0 otherwise (see {@link Triangle.hasSlipped})
+ * - `residualTractions`: see {@link Solution.residualTractions}
+ *
+ * and the point data (at vertices) is `displ`, the Burger's vectors interpolated at vertices
+ * in global coordinate system.
+ *
+ * For each observation set, the point data are `displ`, `strain` and `stress`. Strain and stress
+ * are expanded from the 6 components {@link Tensor} into 9 components symmetric tensors, as expected
+ * by ParaView.
+ * @returns The generated files, the key being the file name and the value its content.
+ * The multiblock file is named `${name}.vtm`
+ * @example
+ * ```js
+ * const fs   = require('fs')
+ * const path = require('path')
+ *
+ * solver.run()
+ * const solution = new arch.Solution(model)
+ *
+ * const files = arch.exportVTK(model, solution, {
+ *     name: 'relay',
+ *     observations: [{ name: 'grid', position: gridPositions, index: gridTriangles }]
+ * })
+ * Object.entries(files).forEach( ([filename, content]) => {
+ *     fs.writeFileSync(path.join('out', filename), content, 'utf8')
+ * })
+ * // then open out/relay.vtm in ParaView
+ * ```
+ * @category IO
+ */
+export function exportVTK(model: Model, solution: Solution, options?: VTKOptions): { [filename: string]: string }